@@ -3,6 +3,8 @@ import routes from "./routes/index.js";
 import { errorMiddleware } from "./middleware/error.middleware.js";
 import { loadConfig } from "./config/index.js";
 import { initializeK8sClients } from "./config/k8s.config.js";
+import { attachPodExecSocket } from "./routes/pod-exec.socket.js";
+import { cacheService } from "./services/cache.service.js";
 
 const app = express();
 
@@ -15,6 +17,7 @@ app.get("/health", (_req, res) => {
   res.json({
     status: "ok",
     timestamp: new Date().toISOString(),
+    cache: cacheService.getStatus(),
   });
 });
 
@@ -48,13 +51,26 @@ async function startServer(): Promise<void> {
     await initializeK8sClients();
     console.log('✅ Kubernetes connectivity verified');
 
-    // Step 3: Start HTTP server only after successful initialization
+    // Step 3: Start informer cache in the background; reads fall back to
+    // the API server until it has synced (see /health)
+    if (config.cacheEnabled) {
+      cacheService.start()
+        .then(() => console.log('✅ Informer cache synced'))
+        .catch((error) => console.warn(
+          `⚠️  Informer cache failed to sync, retrying: ${error instanceof Error ? error.message : error}`
+        ));
+    }
+
+    // Step 4: Start HTTP server only after successful initialization
     const PORT = config.port;
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`🚀 K3s Backend API running on http://localhost:${PORT}`);
       console.log(`📝 API endpoints available at http://localhost:${PORT}/api`);
       console.log(`❤️  Health check at http://localhost:${PORT}/health`);
     });
+
+    // WebSocket upgrades (interactive pod exec)
+    attachPodExecSocket(server);
   } catch (error) {
     // Log descriptive error and exit with non-zero status code
     console.error('❌ Failed to start application:');
@@ -63,6 +63,30 @@ const configSchema = z.object({
     .regex(/^\d+$/, 'MAX_PAGE_SIZE must be a valid number')
     .transform(Number)
     .default('1000'),
+  
+  // Pod exec. Only command[0] is checked; shells are never matched here
+  // because `sh -c` would run anything (see EXEC_INTERACTIVE_SHELLS)
+  EXEC_ALLOWED_COMMANDS: z.string()
+    .transform(s => s.split(',').map(command => command.trim()).filter(Boolean))
+    .default('ls,cat,ps,df'),
+  
+  EXEC_INTERACTIVE_SHELLS: z.enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .default('false'),
+  
+  // Informer cache
+  CACHE_ENABLED: z.enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .default('true'),
+  
+  // Namespaces
+  PROTECTED_NAMESPACES: z.string()
+    .transform(s => s.split(',').map(namespace => namespace.trim()).filter(Boolean))
+    .default('kube-system,kube-public,kube-node-lease,default'),
+  
+  // Pod security
+  POD_SECURITY_PROFILE: z.enum(['restricted', 'none'])
+    .default('restricted'),
 });
 
 /**
@@ -95,6 +119,19 @@ export interface AppConfig {
   // Pagination
   defaultPageSize: number;
   maxPageSize: number;
+  
+  // Pod exec
+  execAllowedCommands: string[]; // executables permitted as the first command element
+  execInteractiveShells: boolean; // allow argument-less shells over the exec WebSocket
+  
+  // Informer cache
+  cacheEnabled: boolean;
+  
+  // Namespaces
+  protectedNamespaces: string[]; // namespaces that cannot be deleted through the API
+  
+  // Pod security
+  podSecurityProfile: 'restricted' | 'none'; // security context defaults for created pods
 }
 
 /**
@@ -121,6 +158,11 @@ export function validateConfig(env: Record<string, string | undefined> = process
       shutdownTimeoutMs: parsed.SHUTDOWN_TIMEOUT_MS,
       defaultPageSize: parsed.DEFAULT_PAGE_SIZE,
       maxPageSize: parsed.MAX_PAGE_SIZE,
+      execAllowedCommands: parsed.EXEC_ALLOWED_COMMANDS,
+      execInteractiveShells: parsed.EXEC_INTERACTIVE_SHELLS,
+      cacheEnabled: parsed.CACHE_ENABLED,
+      protectedNamespaces: parsed.PROTECTED_NAMESPACES,
+      podSecurityProfile: parsed.POD_SECURITY_PROFILE,
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from "express";
+import { configMapService } from "../services/configmap.service.js";
+import {
+  createConfigMapSchema,
+  updateConfigMapSchema,
+} from "../validators/configmap.validator.js";
+import { listQuerySchema } from "../validators/common.validator.js";
+
+export class ConfigMapController {
+  /**
+   * GET /api/configmaps
+   * List config maps, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue
+   */
+  async listConfigMaps(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const namespace = req.query.namespace as string | undefined;
+      const options = listQuerySchema.parse(req.query);
+      const page = await configMapService.listConfigMaps(namespace, options);
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/configmaps/:namespace/:name
+   * Get a specific config map by namespace and name
+   */
+  async getConfigMap(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const configMap = await configMapService.getConfigMap(namespace, name);
+
+      res.json({
+        success: true,
+        data: configMap,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/configmaps
+   * Create a new config map
+   */
+  async createConfigMap(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createConfigMapSchema.parse(req.body);
+      const configMap = await configMapService.createConfigMap(input);
+
+      res.status(201).json({
+        success: true,
+        message: "ConfigMap created successfully",
+        data: configMap,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/configmaps/:namespace/:name
+   * Replace config map data
+   */
+  async updateConfigMap(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = updateConfigMapSchema.parse(req.body);
+      const configMap = await configMapService.updateConfigMap(
+        namespace,
+        name,
+        input,
+      );
+
+      res.json({
+        success: true,
+        message: "ConfigMap updated successfully",
+        data: configMap,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/configmaps/:namespace/:name
+   * Delete a config map
+   */
+  async deleteConfigMap(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      await configMapService.deleteConfigMap(namespace, name);
+
+      res.json({
+        success: true,
+        message: `ConfigMap ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const configMapController = new ConfigMapController();
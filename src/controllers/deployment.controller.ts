@@ -0,0 +1,265 @@
+import { Request, Response, NextFunction } from "express";
+import { deploymentService } from "../services/deployment.service.js";
+import {
+  createDeploymentSchema,
+  updateDeploymentImageSchema,
+  scaleDeploymentSchema,
+  rollbackDeploymentSchema,
+} from "../validators/deployment.validator.js";
+import {
+  listQuerySchema,
+  waitQuerySchema,
+} from "../validators/common.validator.js";
+
+export class DeploymentController {
+  /**
+   * GET /api/deployments
+   * List deployments, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue
+   */
+  async listDeployments(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const namespace = req.query.namespace as string | undefined;
+      const options = listQuerySchema.parse(req.query);
+      const page = await deploymentService.listDeployments(namespace, options);
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/deployments/:namespace/:name
+   * Get a specific deployment by namespace and name
+   */
+  async getDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const deployment = await deploymentService.getDeployment(namespace, name);
+
+      res.json({
+        success: true,
+        data: deployment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/deployments
+   * Create a new deployment.
+   * With ?wait=true the response is held until the rollout completes,
+   * fails, or timeoutSeconds elapses; the outcome is reported under `wait`.
+   */
+  async createDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createDeploymentSchema.parse(req.body);
+      const { wait, timeoutSeconds } = waitQuerySchema.parse(req.query);
+      const deployment = await deploymentService.createDeployment(input);
+
+      if (!wait) {
+        res.status(201).json({
+          success: true,
+          message: "Deployment created successfully",
+          data: deployment,
+        });
+        return;
+      }
+
+      const waited = await deploymentService.waitForDeployment(
+        deployment.namespace,
+        deployment.name,
+        timeoutSeconds,
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `Deployment created (${waited.wait.outcome})`,
+        data: waited.deployment ?? deployment,
+        wait: waited.wait,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/deployments/:namespace/:name
+   * Update a container image, starting a new rollout
+   */
+  async updateDeploymentImage(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = updateDeploymentImageSchema.parse(req.body);
+      const deployment = await deploymentService.updateDeploymentImage(
+        namespace,
+        name,
+        input,
+      );
+
+      res.json({
+        success: true,
+        message: "Deployment updated successfully",
+        data: deployment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/deployments/:namespace/:name/scale
+   * Change the desired replica count
+   */
+  async scaleDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = scaleDeploymentSchema.parse(req.body);
+      const deployment = await deploymentService.scaleDeployment(
+        namespace,
+        name,
+        input,
+      );
+
+      res.json({
+        success: true,
+        message: `Deployment ${name} scaled to ${input.replicas} replicas`,
+        data: deployment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/deployments/:namespace/:name/restart
+   * Restart all pods with a rolling update
+   */
+  async restartDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const deployment = await deploymentService.restartDeployment(
+        namespace,
+        name,
+      );
+
+      res.json({
+        success: true,
+        message: `Deployment ${name} restarted`,
+        data: deployment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/deployments/:namespace/:name/history
+   * List ReplicaSet revisions with their images
+   */
+  async getDeploymentHistory(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const revisions = await deploymentService.getDeploymentHistory(
+        namespace,
+        name,
+      );
+
+      res.json({
+        success: true,
+        data: revisions,
+        count: revisions.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/deployments/:namespace/:name/rollback
+   * Roll back to a previous revision (the one before current by default)
+   */
+  async rollbackDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = rollbackDeploymentSchema.parse(req.body);
+      const deployment = await deploymentService.rollbackDeployment(
+        namespace,
+        name,
+        input,
+      );
+
+      res.json({
+        success: true,
+        message: `Deployment ${name} rolled back`,
+        data: deployment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/deployments/:namespace/:name
+   * Delete a deployment
+   */
+  async deleteDeployment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      await deploymentService.deleteDeployment(namespace, name);
+
+      res.json({
+        success: true,
+        message: `Deployment ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const deploymentController = new DeploymentController();
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from "express";
+import { eventService } from "../services/event.service.js";
+import { eventQuerySchema } from "../validators/event.validator.js";
+
+export class EventController {
+  /**
+   * GET /api/events
+   * List events, optionally filtered by namespace, involved object
+   * (?kind, ?name, ?uid) and ?type. Paginated with ?limit and ?continue
+   */
+  async listEvents(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, kind, name, uid, type, ...options } =
+        eventQuerySchema.parse(req.query);
+      const page = await eventService.listEvents(
+        namespace,
+        { kind, name, uid, type },
+        options,
+      );
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const eventController = new EventController();
@@ -1,11 +1,17 @@
 import { Request, Response, NextFunction } from "express";
 import { ingressService } from "../services/ingress.service.js";
 import { createIngressSchema } from "../validators/ingress.validator.js";
+import {
+  listQuerySchema,
+  readQuerySchema,
+} from "../validators/common.validator.js";
 
 export class IngressController {
   /**
    * GET /api/ingresses
-   * List all ingresses, optionally filtered by namespace query param
+   * List ingresses, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue; ?consistent=true bypasses the
+   * informer cache
    */
   async listIngresses(
     req: Request,
@@ -14,12 +20,15 @@ export class IngressController {
   ): Promise<void> {
     try {
       const namespace = req.query.namespace as string | undefined;
-      const ingresses = await ingressService.listIngresses(namespace);
+      const options = listQuerySchema.parse(req.query);
+      const page = await ingressService.listIngresses(namespace, options);
 
       res.json({
         success: true,
-        data: ingresses,
-        count: ingresses.length,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
       });
     } catch (error) {
       next(error);
@@ -37,7 +46,8 @@ export class IngressController {
   ): Promise<void> {
     try {
       const { namespace, name } = req.params;
-      const ingress = await ingressService.getIngress(namespace, name);
+      const options = readQuerySchema.parse(req.query);
+      const ingress = await ingressService.getIngress(namespace, name, options);
 
       res.json({
         success: true,
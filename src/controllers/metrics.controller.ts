@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express";
+import { metricsService } from "../services/metrics.service.js";
+import { podMetricsQuerySchema } from "../validators/metrics.validator.js";
+
+export class MetricsController {
+  /**
+   * GET /api/metrics/pods
+   * Current pod usage from metrics-server, optionally filtered by
+   * ?namespace and ?labelSelector
+   */
+  async listPodMetrics(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const query = podMetricsQuerySchema.parse(req.query);
+      const metrics = await metricsService.listPodMetrics(query);
+
+      res.json({
+        success: true,
+        data: metrics,
+        count: metrics.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const metricsController = new MetricsController();
@@ -1,23 +1,31 @@
 import { Request, Response, NextFunction } from "express";
 import { namespaceService } from "../services/namespace.service.js";
+import { listQuerySchema } from "../validators/common.validator.js";
+import {
+  createNamespaceSchema,
+  updateNamespaceSchema,
+} from "../validators/namespace.validator.js";
 
 export class NamespaceController {
   /**
    * GET /api/namespaces
-   * List all namespaces
+   * List namespaces, paginated with ?limit and ?continue
    */
   async listNamespaces(
-    _req: Request,
+    req: Request,
     res: Response,
     next: NextFunction,
   ): Promise<void> {
     try {
-      const namespaces = await namespaceService.listNamespaces();
+      const options = listQuerySchema.parse(req.query);
+      const page = await namespaceService.listNamespaces(options);
 
       res.json({
         success: true,
-        data: namespaces,
-        count: namespaces.length,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
       });
     } catch (error) {
       next(error);
@@ -45,6 +53,75 @@ export class NamespaceController {
       next(error);
     }
   }
+
+  /**
+   * POST /api/namespaces
+   * Create a new namespace
+   */
+  async createNamespace(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createNamespaceSchema.parse(req.body);
+      const namespace = await namespaceService.createNamespace(input);
+
+      res.status(201).json({
+        success: true,
+        message: "Namespace created successfully",
+        data: namespace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/namespaces/:name
+   * Update namespace labels and annotations
+   */
+  async updateNamespace(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = updateNamespaceSchema.parse(req.body);
+      const namespace = await namespaceService.updateNamespace(name, input);
+
+      res.json({
+        success: true,
+        message: "Namespace updated successfully",
+        data: namespace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/namespaces/:name
+   * Delete a namespace (refused for protected namespaces)
+   */
+  async deleteNamespace(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      await namespaceService.deleteNamespace(name);
+
+      res.status(202).json({
+        success: true,
+        message: `Namespace ${name} is terminating`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const namespaceController = new NamespaceController();
@@ -0,0 +1,165 @@
+import { Request, Response, NextFunction } from "express";
+import { nodeService } from "../services/node.service.js";
+import { listQuerySchema } from "../validators/common.validator.js";
+import {
+  drainNodeSchema,
+  drainQuerySchema,
+} from "../validators/node.validator.js";
+
+export class NodeController {
+  /**
+   * GET /api/nodes
+   * List nodes with roles, versions, resources and pod counts.
+   * Paginated with ?limit and ?continue
+   */
+  async listNodes(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const options = listQuerySchema.parse(req.query);
+      const page = await nodeService.listNodes(options);
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/nodes/:name
+   * Get a specific node
+   */
+  async getNode(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const node = await nodeService.getNode(name);
+
+      res.json({
+        success: true,
+        data: node,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/nodes/:name/cordon
+   * Stop new pods from being scheduled onto the node
+   */
+  async cordonNode(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const node = await nodeService.cordonNode(name);
+
+      res.json({
+        success: true,
+        message: `Node ${name} cordoned`,
+        data: node,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/nodes/:name/uncordon
+   * Allow pods to be scheduled onto the node again
+   */
+  async uncordonNode(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const node = await nodeService.uncordonNode(name);
+
+      res.json({
+        success: true,
+        message: `Node ${name} uncordoned`,
+        data: node,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/nodes/:name/drain
+   * Cordon the node and evict its pods. With ?stream=true each pod's
+   * progress is sent as a Server-Sent Event, followed by a result event.
+   */
+  async drainNode(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = drainNodeSchema.parse(req.body);
+      const { stream } = drainQuerySchema.parse(req.query);
+
+      if (!stream) {
+        const result = await nodeService.drainNode(name, input);
+
+        res.json({
+          success: result.outcome === "Drained",
+          message: `Drain of node ${name}: ${result.outcome}`,
+          data: result,
+        });
+        return;
+      }
+
+      let started = false;
+      const write = (event: string, data: unknown) => {
+        if (!started) {
+          res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          });
+          started = true;
+        }
+        if (!res.writableEnded) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      try {
+        const result = await nodeService.drainNode(name, input, (pod) =>
+          write("progress", pod),
+        );
+        write("result", result);
+        res.end();
+      } catch (error) {
+        // Errors before the first event (e.g. 409 blockers) get a JSON response
+        if (!started) throw error;
+        write("error", {
+          error: error instanceof Error ? error.message : "Drain failed",
+        });
+        res.end();
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const nodeController = new NodeController();
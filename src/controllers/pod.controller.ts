@@ -1,14 +1,26 @@
 import { Request, Response, NextFunction } from "express";
 import { podService } from "../services/pod.service.js";
+import { eventService } from "../services/event.service.js";
+import { diagnosisService } from "../services/diagnosis.service.js";
+import { metricsService } from "../services/metrics.service.js";
 import {
   createPodSchema,
   updatePodSchema,
+  podLogsQuerySchema,
+  execPodSchema,
 } from "../validators/pod.validator.js";
+import {
+  listQuerySchema,
+  readQuerySchema,
+  waitQuerySchema,
+} from "../validators/common.validator.js";
 
 export class PodController {
   /**
    * GET /api/pods
-   * List all pods, optionally filtered by namespace query param
+   * List pods, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue; ?consistent=true bypasses the
+   * informer cache
    */
   async listPods(
     req: Request,
@@ -17,12 +29,15 @@ export class PodController {
   ): Promise<void> {
     try {
       const namespace = req.query.namespace as string | undefined;
-      const pods = await podService.listPods(namespace);
+      const options = listQuerySchema.parse(req.query);
+      const page = await podService.listPods(namespace, options);
 
       res.json({
         success: true,
-        data: pods,
-        count: pods.length,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
       });
     } catch (error) {
       next(error);
@@ -36,7 +51,8 @@ export class PodController {
   async getPod(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { namespace, name } = req.params;
-      const pod = await podService.getPod(namespace, name);
+      const options = readQuerySchema.parse(req.query);
+      const pod = await podService.getPod(namespace, name, options);
 
       res.json({
         success: true,
@@ -47,9 +63,83 @@ export class PodController {
     }
   }
 
+  /**
+   * GET /api/pods/:namespace/:name/logs
+   * Get container logs; with follow=true the logs are streamed as chunked
+   * text until either the container or the HTTP client goes away
+   */
+  async getPodLogs(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const options = podLogsQuerySchema.parse(req.query);
+
+      if (!options.follow) {
+        const logs = await podService.getPodLogs(namespace, name, options);
+        res.type("text/plain").send(logs);
+        return;
+      }
+
+      // The client may disconnect before the API server has answered
+      let closed = false;
+      let upstream:
+        | Awaited<ReturnType<typeof podService.streamPodLogs>>
+        | undefined;
+      res.on("close", () => {
+        closed = true;
+        upstream?.abort();
+      });
+
+      upstream = await podService.streamPodLogs(namespace, name, options, res);
+      if (closed) {
+        upstream.abort();
+        return;
+      }
+
+      // Only commit to a text stream once the API server accepted the
+      // request, so errors above still get the JSON error response
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.flushHeaders();
+
+      upstream.on("error", () => res.end());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/pods/:namespace/:name/exec
+   * Run a non-interactive command in a container and return its output
+   */
+  async execPod(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = execPodSchema.parse(req.body);
+      const result = await podService.execCommand(namespace, name, input);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/pods
-   * Create a new pod with optional resource limits
+   * Create a new pod with optional resource limits.
+   * With ?wait=true the response is held until the pod is Ready, fails,
+   * or timeoutSeconds elapses; the outcome is reported under `wait`.
    */
   async createPod(
     req: Request,
@@ -58,12 +148,29 @@ export class PodController {
   ): Promise<void> {
     try {
       const input = createPodSchema.parse(req.body);
+      const { wait, timeoutSeconds } = waitQuerySchema.parse(req.query);
       const pod = await podService.createPod(input);
 
+      if (!wait) {
+        res.status(201).json({
+          success: true,
+          message: "Pod created successfully",
+          data: pod,
+        });
+        return;
+      }
+
+      const waited = await podService.waitForPod(
+        pod.namespace,
+        pod.name,
+        timeoutSeconds,
+      );
+
       res.status(201).json({
         success: true,
-        message: "Pod created successfully",
-        data: pod,
+        message: `Pod created (${waited.wait.outcome})`,
+        data: waited.pod ?? pod,
+        wait: waited.wait,
       });
     } catch (error) {
       next(error);
@@ -94,6 +201,75 @@ export class PodController {
     }
   }
 
+  /**
+   * GET /api/pods/:namespace/:name/events
+   * Get the pod's events, oldest first
+   */
+  async getPodEvents(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const events = await eventService.listPodEvents(namespace, name);
+
+      res.json({
+        success: true,
+        data: events,
+        count: events.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/pods/:namespace/:name/diagnose
+   * Explain why a pod is unhealthy from its events, container states and
+   * scheduling conditions
+   */
+  async diagnosePod(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const diagnosis = await diagnosisService.diagnosePod(namespace, name);
+
+      res.json({
+        success: true,
+        data: diagnosis,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/pods/:namespace/:name/metrics
+   * Current CPU (millicores) and memory (bytes) usage per container, with
+   * percentages of requests and limits
+   */
+  async getPodMetrics(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const metrics = await metricsService.getPodMetrics(namespace, name);
+
+      res.json({
+        success: true,
+        data: metrics,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * DELETE /api/pods/:namespace/:name
    * Delete a pod
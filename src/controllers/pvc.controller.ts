@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from "express";
+import { pvcService } from "../services/pvc.service.js";
+import { createPvcSchema } from "../validators/pvc.validator.js";
+import { listQuerySchema } from "../validators/common.validator.js";
+
+export class PvcController {
+  /**
+   * GET /api/persistentvolumeclaims
+   * List persistent volume claims with bound status and capacity, optionally
+   * filtered by namespace query param.
+   * Paginated with ?limit and ?continue
+   */
+  async listPvcs(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const namespace = req.query.namespace as string | undefined;
+      const options = listQuerySchema.parse(req.query);
+      const page = await pvcService.listPvcs(namespace, options);
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/persistentvolumeclaims/:namespace/:name
+   * Get a specific persistent volume claim by namespace and name
+   */
+  async getPvc(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const pvc = await pvcService.getPvc(namespace, name);
+
+      res.json({
+        success: true,
+        data: pvc,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/persistentvolumeclaims
+   * Create a new persistent volume claim
+   */
+  async createPvc(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createPvcSchema.parse(req.body);
+      const pvc = await pvcService.createPvc(input);
+
+      res.status(201).json({
+        success: true,
+        message: "PVC created successfully",
+        data: pvc,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/persistentvolumeclaims/:namespace/:name
+   * Delete a persistent volume claim
+   */
+  async deletePvc(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      await pvcService.deletePvc(namespace, name);
+
+      res.json({
+        success: true,
+        message: `PVC ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pvcController = new PvcController();
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from "express";
+import { quotaService } from "../services/quota.service.js";
+import {
+  limitRangeSchema,
+  resourceQuotaSchema,
+} from "../validators/quota.validator.js";
+
+export class QuotaController {
+  /**
+   * GET /api/namespaces/:name/quota
+   * Get the namespace's resource quota with used vs hard values
+   */
+  async getQuota(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const quota = await quotaService.getQuota(name);
+
+      res.json({
+        success: true,
+        data: quota,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/namespaces/:name/quota
+   * Create the namespace's resource quota
+   */
+  async createQuota(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = resourceQuotaSchema.parse(req.body);
+      const quota = await quotaService.createQuota(name, input);
+
+      res.status(201).json({
+        success: true,
+        message: "Resource quota created successfully",
+        data: quota,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/namespaces/:name/quota
+   * Replace the namespace's resource quota limits
+   */
+  async updateQuota(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = resourceQuotaSchema.parse(req.body);
+      const quota = await quotaService.updateQuota(name, input);
+
+      res.json({
+        success: true,
+        message: "Resource quota updated successfully",
+        data: quota,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/namespaces/:name/quota
+   * Delete the namespace's resource quota
+   */
+  async deleteQuota(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      await quotaService.deleteQuota(name);
+
+      res.json({
+        success: true,
+        message: `Resource quota for namespace ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/namespaces/:name/limits
+   * Get the namespace's container limit range
+   */
+  async getLimitRange(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const limitRange = await quotaService.getLimitRange(name);
+
+      res.json({
+        success: true,
+        data: limitRange,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/namespaces/:name/limits
+   * Create the namespace's container limit range
+   */
+  async createLimitRange(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = limitRangeSchema.parse(req.body);
+      const limitRange = await quotaService.createLimitRange(name, input);
+
+      res.status(201).json({
+        success: true,
+        message: "Limit range created successfully",
+        data: limitRange,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/namespaces/:name/limits
+   * Replace the namespace's container limit range
+   */
+  async updateLimitRange(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const input = limitRangeSchema.parse(req.body);
+      const limitRange = await quotaService.updateLimitRange(name, input);
+
+      res.json({
+        success: true,
+        message: "Limit range updated successfully",
+        data: limitRange,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/namespaces/:name/limits
+   * Delete the namespace's container limit range
+   */
+  async deleteLimitRange(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      await quotaService.deleteLimitRange(name);
+
+      res.json({
+        success: true,
+        message: `Limit range for namespace ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const quotaController = new QuotaController();
@@ -0,0 +1,160 @@
+import { Request, Response, NextFunction } from "express";
+import { secretService } from "../services/secret.service.js";
+import {
+  createSecretSchema,
+  registryCredentialSchema,
+  rotateSecretKeySchema,
+} from "../validators/secret.validator.js";
+import { listQuerySchema } from "../validators/common.validator.js";
+
+export class SecretController {
+  /**
+   * GET /api/secrets
+   * List secrets, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue
+   */
+  async listSecrets(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const namespace = req.query.namespace as string | undefined;
+      const options = listQuerySchema.parse(req.query);
+      const page = await secretService.listSecrets(namespace, options);
+
+      res.json({
+        success: true,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/secrets/:namespace/:name
+   * Get a secret's keys, sizes and metadata (values are never returned)
+   */
+  async getSecret(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const secret = await secretService.getSecret(namespace, name);
+
+      res.json({
+        success: true,
+        data: secret,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/secrets
+   * Create an Opaque, docker-registry or TLS secret
+   */
+  async createSecret(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createSecretSchema.parse(req.body);
+      const secret = await secretService.createSecret(input);
+
+      res.status(201).json({
+        success: true,
+        message: "Secret created successfully",
+        data: secret,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/secrets/registry
+   * Create a dockerconfigjson secret from registry credentials, optionally
+   * attaching it to the namespace's default service account
+   */
+  async createRegistryCredential(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = registryCredentialSchema.parse(req.body);
+      const result = await secretService.createRegistryCredential(input);
+
+      res.status(201).json({
+        success: true,
+        message: result.serviceAccount
+          ? `Registry secret created and added to service account ${result.serviceAccount}`
+          : "Registry secret created successfully",
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/secrets/:namespace/:name/rotate
+   * Replace the value of a single key
+   */
+  async rotateSecretKey(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      const input = rotateSecretKeySchema.parse(req.body);
+      const secret = await secretService.rotateSecretKey(
+        namespace,
+        name,
+        input,
+      );
+
+      res.json({
+        success: true,
+        message: `Secret key ${input.key} rotated successfully`,
+        data: secret,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/secrets/:namespace/:name
+   * Delete a secret
+   */
+  async deleteSecret(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { namespace, name } = req.params;
+      await secretService.deleteSecret(namespace, name);
+
+      res.json({
+        success: true,
+        message: `Secret ${name} deleted successfully`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const secretController = new SecretController();
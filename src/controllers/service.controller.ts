@@ -1,11 +1,17 @@
 import { Request, Response, NextFunction } from "express";
 import { serviceService } from "../services/service.service.js";
 import { createServiceSchema } from "../validators/service.validator.js";
+import {
+  listQuerySchema,
+  readQuerySchema,
+} from "../validators/common.validator.js";
 
 export class ServiceController {
   /**
    * GET /api/services
-   * List all services, optionally filtered by namespace query param
+   * List services, optionally filtered by namespace query param.
+   * Paginated with ?limit and ?continue; ?consistent=true bypasses the
+   * informer cache
    */
   async listServices(
     req: Request,
@@ -14,12 +20,15 @@ export class ServiceController {
   ): Promise<void> {
     try {
       const namespace = req.query.namespace as string | undefined;
-      const services = await serviceService.listServices(namespace);
+      const options = listQuerySchema.parse(req.query);
+      const page = await serviceService.listServices(namespace, options);
 
       res.json({
         success: true,
-        data: services,
-        count: services.length,
+        data: page.items,
+        count: page.items.length,
+        continue: page.continue,
+        remainingItemCount: page.remainingItemCount,
       });
     } catch (error) {
       next(error);
@@ -37,7 +46,8 @@ export class ServiceController {
   ): Promise<void> {
     try {
       const { namespace, name } = req.params;
-      const service = await serviceService.getService(namespace, name);
+      const options = readQuerySchema.parse(req.query);
+      const service = await serviceService.getService(namespace, name, options);
 
       res.json({
         success: true,
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import { tenantService } from "../services/tenant.service.js";
+import { createTenantSchema } from "../validators/tenant.validator.js";
+
+export class TenantController {
+  /**
+   * POST /api/tenants
+   * Provision a tenant namespace with quota, limits, network policy and
+   * service account, rolling back on failure
+   */
+  async createTenant(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const input = createTenantSchema.parse(req.body);
+      const tenant = await tenantService.createTenant(input);
+
+      res.status(201).json({
+        success: true,
+        message: "Tenant created successfully",
+        data: tenant,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/tenants/:name
+   * Summarise a tenant's quota and workload usage
+   */
+  async getTenant(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { name } = req.params;
+      const tenant = await tenantService.getTenant(name);
+
+      res.json({
+        success: true,
+        data: tenant,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const tenantController = new TenantController();
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from "express";
+import { watchService } from "../services/watch.service.js";
+import {
+  watchParamsSchema,
+  watchQuerySchema,
+} from "../validators/watch.validator.js";
+import type { ResourceWatchEvent } from "../types/watch.types.js";
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export class WatchController {
+  /**
+   * GET /api/watch/:resource
+   * Stream ADDED/MODIFIED/DELETED events as Server-Sent Events.
+   * Each event id is the object's resourceVersion, so reconnecting
+   * EventSource clients resume via the Last-Event-ID header.
+   */
+  async watchResource(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { resource } = watchParamsSchema.parse(req.params);
+      const query = watchQuerySchema.parse(req.query);
+      const lastEventId = req.get("Last-Event-ID");
+      const options = {
+        ...query,
+        resourceVersion: query.resourceVersion || lastEventId || undefined,
+      };
+
+      const stop = await watchService.watchResource(
+        resource,
+        options,
+        (event) => this.writeEvent(res, event),
+        (error) => {
+          this.writeEvent(res, {
+            type: "ERROR",
+            error: error instanceof Error ? error.message : "Watch failed",
+          });
+        },
+      );
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(": connected\n\n");
+
+      // Comment lines keep idle connections open through proxies
+      const heartbeat = setInterval(
+        () => res.write(": heartbeat\n\n"),
+        HEARTBEAT_INTERVAL_MS,
+      );
+
+      res.on("close", () => {
+        clearInterval(heartbeat);
+        stop();
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Write one SSE frame; ERROR events end the stream
+   */
+  private writeEvent(res: Response, event: ResourceWatchEvent): void {
+    if (res.writableEnded) return;
+
+    if (event.type === "BOOKMARK") {
+      res.write(`id: ${event.resourceVersion}\n: bookmark\n\n`);
+      return;
+    }
+
+    // An empty id clears the client's Last-Event-ID, so a reconnect does
+    // not resume from the expired resourceVersion
+    if (event.type === "RESET") {
+      res.write(
+        `id\nevent: RESET\ndata: ${JSON.stringify({ error: event.error, code: event.code })}\n\n`,
+      );
+      return;
+    }
+
+    if (event.type === "ERROR") {
+      res.write(
+        `event: error\ndata: ${JSON.stringify({ error: event.error, code: event.code })}\n\n`,
+      );
+      res.end();
+      return;
+    }
+
+    res.write(
+      `id: ${event.resourceVersion}\n` +
+        `event: ${event.type}\n` +
+        `data: ${JSON.stringify(event.object)}\n\n`,
+    );
+  }
+}
+
+export const watchController = new WatchController();
@@ -9,6 +9,20 @@ interface ApiError extends Error {
   };
 }
 
+/**
+ * Error raised by the API itself (rather than the Kubernetes API server)
+ * that should be reported to the client with a specific status code
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
 export function errorMiddleware(
   err: ApiError,
   _req: Request,
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { configMapController } from "../controllers/configmap.controller.js";
+
+const router = Router();
+
+// List config maps (optional namespace filter via query param)
+router.get("/", (req, res, next) =>
+  configMapController.listConfigMaps(req, res, next),
+);
+
+// Get specific config map
+router.get("/:namespace/:name", (req, res, next) =>
+  configMapController.getConfigMap(req, res, next),
+);
+
+// Create config map
+router.post("/", (req, res, next) =>
+  configMapController.createConfigMap(req, res, next),
+);
+
+// Replace config map data
+router.put("/:namespace/:name", (req, res, next) =>
+  configMapController.updateConfigMap(req, res, next),
+);
+
+// Delete config map
+router.delete("/:namespace/:name", (req, res, next) =>
+  configMapController.deleteConfigMap(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { deploymentController } from "../controllers/deployment.controller.js";
+
+const router = Router();
+
+// List deployments (optional namespace filter via query param)
+router.get("/", (req, res, next) =>
+  deploymentController.listDeployments(req, res, next),
+);
+
+// Get specific deployment
+router.get("/:namespace/:name", (req, res, next) =>
+  deploymentController.getDeployment(req, res, next),
+);
+
+// Get rollout history (ReplicaSet revisions)
+router.get("/:namespace/:name/history", (req, res, next) =>
+  deploymentController.getDeploymentHistory(req, res, next),
+);
+
+// Create deployment
+router.post("/", (req, res, next) =>
+  deploymentController.createDeployment(req, res, next),
+);
+
+// Update deployment image
+router.patch("/:namespace/:name", (req, res, next) =>
+  deploymentController.updateDeploymentImage(req, res, next),
+);
+
+// Scale deployment
+router.post("/:namespace/:name/scale", (req, res, next) =>
+  deploymentController.scaleDeployment(req, res, next),
+);
+
+// Rollout restart
+router.post("/:namespace/:name/restart", (req, res, next) =>
+  deploymentController.restartDeployment(req, res, next),
+);
+
+// Roll back to a previous revision
+router.post("/:namespace/:name/rollback", (req, res, next) =>
+  deploymentController.rollbackDeployment(req, res, next),
+);
+
+// Delete deployment
+router.delete("/:namespace/:name", (req, res, next) =>
+  deploymentController.deleteDeployment(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { eventController } from "../controllers/event.controller.js";
+
+const router = Router();
+
+// List events (namespace, involved object and type filters via query params)
+router.get("/", (req, res, next) => eventController.listEvents(req, res, next));
+
+export default router;
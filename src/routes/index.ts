@@ -3,6 +3,15 @@ import podRoutes from "./pod.routes.js";
 import namespaceRoutes from "./namespace.routes.js";
 import serviceRoutes from "./service.routes.js";
 import ingressRoutes from "./ingress.routes.js";
+import deploymentRoutes from "./deployment.routes.js";
+import watchRoutes from "./watch.routes.js";
+import tenantRoutes from "./tenant.routes.js";
+import configMapRoutes from "./configmap.routes.js";
+import secretRoutes from "./secret.routes.js";
+import pvcRoutes from "./pvc.routes.js";
+import eventRoutes from "./event.routes.js";
+import metricsRoutes from "./metrics.routes.js";
+import nodeRoutes from "./node.routes.js";
 
 const router = Router();
 
@@ -10,5 +19,14 @@ router.use("/pods", podRoutes);
 router.use("/namespaces", namespaceRoutes);
 router.use("/services", serviceRoutes);
 router.use("/ingresses", ingressRoutes);
+router.use("/deployments", deploymentRoutes);
+router.use("/watch", watchRoutes);
+router.use("/tenants", tenantRoutes);
+router.use("/configmaps", configMapRoutes);
+router.use("/secrets", secretRoutes);
+router.use("/persistentvolumeclaims", pvcRoutes);
+router.use("/events", eventRoutes);
+router.use("/metrics", metricsRoutes);
+router.use("/nodes", nodeRoutes);
 
 export default router;
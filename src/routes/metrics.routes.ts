@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { metricsController } from "../controllers/metrics.controller.js";
+
+const router = Router();
+
+// List pod usage (optional namespace and labelSelector query params)
+router.get("/pods", (req, res, next) =>
+  metricsController.listPodMetrics(req, res, next),
+);
+
+export default router;
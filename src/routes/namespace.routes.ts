@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { namespaceController } from "../controllers/namespace.controller.js";
+import { quotaController } from "../controllers/quota.controller.js";
 
 const router = Router();
 
@@ -13,4 +14,59 @@ router.get("/:name", (req, res, next) =>
   namespaceController.getNamespace(req, res, next),
 );
 
+// Create namespace
+router.post("/", (req, res, next) =>
+  namespaceController.createNamespace(req, res, next),
+);
+
+// Update namespace labels/annotations
+router.patch("/:name", (req, res, next) =>
+  namespaceController.updateNamespace(req, res, next),
+);
+
+// Delete namespace
+router.delete("/:name", (req, res, next) =>
+  namespaceController.deleteNamespace(req, res, next),
+);
+
+// Get namespace resource quota
+router.get("/:name/quota", (req, res, next) =>
+  quotaController.getQuota(req, res, next),
+);
+
+// Create namespace resource quota
+router.post("/:name/quota", (req, res, next) =>
+  quotaController.createQuota(req, res, next),
+);
+
+// Replace namespace resource quota
+router.put("/:name/quota", (req, res, next) =>
+  quotaController.updateQuota(req, res, next),
+);
+
+// Delete namespace resource quota
+router.delete("/:name/quota", (req, res, next) =>
+  quotaController.deleteQuota(req, res, next),
+);
+
+// Get namespace limit range
+router.get("/:name/limits", (req, res, next) =>
+  quotaController.getLimitRange(req, res, next),
+);
+
+// Create namespace limit range
+router.post("/:name/limits", (req, res, next) =>
+  quotaController.createLimitRange(req, res, next),
+);
+
+// Replace namespace limit range
+router.put("/:name/limits", (req, res, next) =>
+  quotaController.updateLimitRange(req, res, next),
+);
+
+// Delete namespace limit range
+router.delete("/:name/limits", (req, res, next) =>
+  quotaController.deleteLimitRange(req, res, next),
+);
+
 export default router;
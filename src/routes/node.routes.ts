@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { nodeController } from "../controllers/node.controller.js";
+
+const router = Router();
+
+// List nodes
+router.get("/", (req, res, next) => nodeController.listNodes(req, res, next));
+
+// Get specific node
+router.get("/:name", (req, res, next) =>
+  nodeController.getNode(req, res, next),
+);
+
+// Mark node unschedulable
+router.post("/:name/cordon", (req, res, next) =>
+  nodeController.cordonNode(req, res, next),
+);
+
+// Mark node schedulable
+router.post("/:name/uncordon", (req, res, next) =>
+  nodeController.uncordonNode(req, res, next),
+);
+
+// Cordon node and evict its pods (optional stream query param)
+router.post("/:name/drain", (req, res, next) =>
+  nodeController.drainNode(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,163 @@
+import { STATUS_CODES, type IncomingMessage, type Server } from "http";
+import { PassThrough, type Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { podService } from "../services/pod.service.js";
+import {
+  execClientMessageSchema,
+  execSessionQuerySchema,
+  type ExecSessionQuery,
+} from "../validators/pod.validator.js";
+
+const EXEC_PATH = /^\/api\/pods\/([^/]+)\/([^/]+)\/exec\/?$/;
+
+/**
+ * stdout stream that client-node's Exec treats as a resizable terminal
+ */
+class TerminalStream extends PassThrough {
+  constructor(
+    public columns: number,
+    public rows: number,
+  ) {
+    super();
+  }
+
+  resize(columns: number, rows: number): void {
+    this.columns = columns;
+    this.rows = rows;
+    this.emit("resize");
+  }
+}
+
+/**
+ * Attach the interactive exec endpoint to the HTTP server.
+ *
+ * WebSocket upgrade on /api/pods/:namespace/:name/exec with optional
+ * `container`, repeated `command`, `tty`, `cols` and `rows` query params.
+ * Client messages: {"type":"stdin","data"} and {"type":"resize","cols","rows"}.
+ * Server messages: {"type":"stdout"|"stderr","data"}, {"type":"exit",...}
+ * and {"type":"error","error"}.
+ */
+export function attachPodExecSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const match = EXEC_PATH.exec(url.pathname);
+
+    if (!match) {
+      rejectUpgrade(socket, 404, "Not found");
+      return;
+    }
+
+    const namespace = decodeURIComponent(match[1]);
+    const name = decodeURIComponent(match[2]);
+    const commands = url.searchParams.getAll("command");
+    const parsed = execSessionQuerySchema.safeParse({
+      container: url.searchParams.get("container") ?? undefined,
+      command: commands.length ? commands : undefined,
+      tty: url.searchParams.get("tty") ?? undefined,
+      cols: url.searchParams.get("cols") ?? undefined,
+      rows: url.searchParams.get("rows") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      rejectUpgrade(socket, 400, "Validation error");
+      return;
+    }
+
+    try {
+      podService.assertCommandAllowed(parsed.data.command, true);
+    } catch (error) {
+      rejectUpgrade(socket, 403, (error as Error).message);
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (client) =>
+      bridgeExecSession(client, namespace, name, parsed.data),
+    );
+  });
+}
+
+/**
+ * Pipe a client WebSocket to a Kubernetes exec session until either side closes
+ */
+async function bridgeExecSession(
+  client: WebSocket,
+  namespace: string,
+  name: string,
+  options: ExecSessionQuery,
+): Promise<void> {
+  const stdin = new PassThrough();
+  const stdout = new TerminalStream(options.cols, options.rows);
+  const stderr = new PassThrough();
+
+  stdout.on("data", (chunk: Buffer) =>
+    send(client, { type: "stdout", data: chunk.toString() }),
+  );
+  stderr.on("data", (chunk: Buffer) =>
+    send(client, { type: "stderr", data: chunk.toString() }),
+  );
+
+  client.on("message", (raw: RawData) => {
+    let message;
+    try {
+      message = execClientMessageSchema.parse(JSON.parse(raw.toString()));
+    } catch {
+      send(client, { type: "error", error: "Invalid message" });
+      return;
+    }
+
+    if (message.type === "stdin") {
+      stdin.write(message.data);
+    } else {
+      stdout.resize(message.cols, message.rows);
+    }
+  });
+
+  // Ending stdin closes the upstream exec connection
+  client.on("close", () => stdin.end());
+
+  try {
+    const upstream = await podService.openExecSession(
+      namespace,
+      name,
+      options,
+      { stdin, stdout, stderr },
+      (result) => send(client, { type: "exit", ...result }),
+    );
+
+    if (client.readyState !== WebSocket.OPEN) {
+      upstream.close();
+      return;
+    }
+    upstream.on("close", () => client.close(1000));
+  } catch (error) {
+    const body = (error as { body?: { message?: string } }).body;
+    send(client, {
+      type: "error",
+      error: body?.message || (error as Error).message || "Exec failed",
+    });
+    client.close(1011);
+  }
+}
+
+function send(client: WebSocket, message: Record<string, unknown>): void {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+}
+
+function rejectUpgrade(
+  socket: Duplex,
+  statusCode: number,
+  error: string,
+): void {
+  const body = JSON.stringify({ success: false, error });
+  socket.end(
+    `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\n` +
+      "Content-Type: application/json\r\n" +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      "Connection: close\r\n\r\n" +
+      body,
+  );
+}
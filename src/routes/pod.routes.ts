@@ -11,6 +11,32 @@ router.get("/:namespace/:name", (req, res, next) =>
   podController.getPod(req, res, next),
 );
 
+// Get pod logs (supports ?follow=true for streaming)
+router.get("/:namespace/:name/logs", (req, res, next) =>
+  podController.getPodLogs(req, res, next),
+);
+
+// Get pod events, oldest first
+router.get("/:namespace/:name/events", (req, res, next) =>
+  podController.getPodEvents(req, res, next),
+);
+
+// Explain why a pod is unhealthy
+router.get("/:namespace/:name/diagnose", (req, res, next) =>
+  podController.diagnosePod(req, res, next),
+);
+
+// Get current resource usage from metrics-server
+router.get("/:namespace/:name/metrics", (req, res, next) =>
+  podController.getPodMetrics(req, res, next),
+);
+
+// Run a command in a pod container (interactive sessions use the
+// WebSocket upgrade on the same path, see pod-exec.socket.ts)
+router.post("/:namespace/:name/exec", (req, res, next) =>
+  podController.execPod(req, res, next),
+);
+
 // Create pod
 router.post("/", (req, res, next) => podController.createPod(req, res, next));
 
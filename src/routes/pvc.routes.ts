@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { pvcController } from "../controllers/pvc.controller.js";
+
+const router = Router();
+
+// List persistent volume claims (optional namespace filter via query param)
+router.get("/", (req, res, next) => pvcController.listPvcs(req, res, next));
+
+// Get specific persistent volume claim
+router.get("/:namespace/:name", (req, res, next) =>
+  pvcController.getPvc(req, res, next),
+);
+
+// Create persistent volume claim
+router.post("/", (req, res, next) => pvcController.createPvc(req, res, next));
+
+// Delete persistent volume claim
+router.delete("/:namespace/:name", (req, res, next) =>
+  pvcController.deletePvc(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { secretController } from "../controllers/secret.controller.js";
+
+const router = Router();
+
+// List secrets (optional namespace filter via query param)
+router.get("/", (req, res, next) =>
+  secretController.listSecrets(req, res, next),
+);
+
+// Get specific secret (keys and sizes only)
+router.get("/:namespace/:name", (req, res, next) =>
+  secretController.getSecret(req, res, next),
+);
+
+// Create secret
+router.post("/", (req, res, next) =>
+  secretController.createSecret(req, res, next),
+);
+
+// Create image pull secret from registry credentials
+router.post("/registry", (req, res, next) =>
+  secretController.createRegistryCredential(req, res, next),
+);
+
+// Rotate a single secret key
+router.post("/:namespace/:name/rotate", (req, res, next) =>
+  secretController.rotateSecretKey(req, res, next),
+);
+
+// Delete secret
+router.delete("/:namespace/:name", (req, res, next) =>
+  secretController.deleteSecret(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { tenantController } from "../controllers/tenant.controller.js";
+
+const router = Router();
+
+// Provision tenant
+router.post("/", (req, res, next) =>
+  tenantController.createTenant(req, res, next),
+);
+
+// Get tenant usage summary
+router.get("/:name", (req, res, next) =>
+  tenantController.getTenant(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { watchController } from "../controllers/watch.controller.js";
+
+const router = Router();
+
+// Stream resource changes as Server-Sent Events
+router.get("/:resource", (req, res, next) =>
+  watchController.watchResource(req, res, next),
+);
+
+export default router;
@@ -0,0 +1,270 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api, networkingV1Api, kc } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import type { CacheMetrics, CacheStatus } from "../types/cache.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+import {
+  matchesLabelSelector,
+  parseLabelSelector,
+} from "../validators/selector.validator.js";
+
+const RESTART_DELAY_MS = 5000;
+const MAX_RESTART_DELAY_MS = 300000;
+const CACHE_TOKEN_PREFIX = "cache.";
+
+function objectKey(obj: k8s.KubernetesObject): string {
+  return `${obj.metadata?.namespace || ""}/${obj.metadata?.name || ""}`;
+}
+
+/**
+ * Continue tokens issued for cached lists record the last key returned,
+ * so paging stays stable while objects are added or removed
+ */
+function encodeContinueToken(lastKey: string): string {
+  return (
+    CACHE_TOKEN_PREFIX +
+    Buffer.from(JSON.stringify({ after: lastKey })).toString("base64url")
+  );
+}
+
+function decodeContinueToken(token: string): string | undefined {
+  if (!token.startsWith(CACHE_TOKEN_PREFIX)) return undefined;
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(
+        token.slice(CACHE_TOKEN_PREFIX.length),
+        "base64url",
+      ).toString(),
+    );
+    return typeof decoded.after === "string" ? decoded.after : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cluster-wide list/watch cache for one resource type
+ */
+export class InformerCache<T extends k8s.KubernetesObject> {
+  private informer?: k8s.Informer<T> & k8s.ObjectCache<T>;
+  private synced = false;
+  private restartTimer?: NodeJS.Timeout;
+  private restartAttempts = 0;
+  private stopped = false;
+  private readonly metrics: CacheMetrics = { hits: 0, misses: 0, bypasses: 0 };
+
+  constructor(
+    private readonly name: string,
+    private readonly path: string,
+    private readonly listFn: k8s.ListPromise<T>,
+  ) {}
+
+  /**
+   * Start the informer; resolves once the initial list has been loaded.
+   * Failed lists and watch errors mark the cache unsynced and restart it
+   * with a backoff; the first failure still rejects so callers can log it.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+
+    if (!this.informer) {
+      this.informer = k8s.makeInformer(kc, this.path, this.listFn);
+      this.informer.on("error", (error) => {
+        this.synced = false;
+        console.error(
+          `Informer cache for ${this.name} failed:`,
+          error instanceof Error ? error.message : error,
+        );
+        this.scheduleRestart();
+      });
+    }
+
+    try {
+      await this.informer.start();
+    } catch (error) {
+      this.synced = false;
+      this.scheduleRestart();
+      throw error;
+    }
+
+    if (this.restartAttempts > 0) {
+      console.log(`Informer cache for ${this.name} synced after restart`);
+    }
+    this.restartAttempts = 0;
+    this.synced = true;
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.restartTimer);
+    this.synced = false;
+    await this.informer?.stop();
+  }
+
+  /**
+   * Retry start() after a delay that doubles with each consecutive failure.
+   * A pending restart is replaced, so only one is ever scheduled.
+   */
+  private scheduleRestart(): void {
+    if (this.stopped) return;
+
+    clearTimeout(this.restartTimer);
+    const delay = Math.min(
+      RESTART_DELAY_MS * 2 ** this.restartAttempts,
+      MAX_RESTART_DELAY_MS,
+    );
+    this.restartAttempts++;
+
+    // A failed restart schedules the next one itself
+    this.restartTimer = setTimeout(
+      () =>
+        this.start().catch((error) =>
+          console.error(
+            `Informer cache for ${this.name} failed to sync:`,
+            error instanceof Error ? error.message : error,
+          ),
+        ),
+      delay,
+    );
+  }
+
+  /**
+   * List one page of cached objects, or undefined when the caller must
+   * query the API. Pages are ordered by namespace/name and use cache-issued
+   * continue tokens; tokens issued by the API server always bypass the cache.
+   * Label selectors are evaluated locally; field selectors are left to the
+   * API server, which knows which fields each resource supports.
+   */
+  list(
+    namespace: string | undefined,
+    options: ListOptions,
+  ): ListResult<T> | undefined {
+    const after = options.continue
+      ? decodeContinueToken(options.continue)
+      : undefined;
+
+    if (options.consistent || (options.continue && after === undefined)) {
+      this.metrics.bypasses++;
+      return undefined;
+    }
+    if (!this.synced || !this.informer || options.fieldSelector) {
+      if (after !== undefined) {
+        throw new HttpStatusError(
+          410,
+          "The continue token has expired. Restart the list without it.",
+        );
+      }
+      this.metrics.misses++;
+      return undefined;
+    }
+
+    this.metrics.hits++;
+    const requirements = options.labelSelector
+      ? parseLabelSelector(options.labelSelector)
+      : [];
+    const sorted = this.informer
+      .list(namespace)
+      .filter((obj) => matchesLabelSelector(requirements, obj.metadata?.labels))
+      .map((obj) => ({ key: objectKey(obj), obj }))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    const start = after ? sorted.findIndex((entry) => entry.key > after) : 0;
+    const remaining = start === -1 ? [] : sorted.slice(start);
+    const limit = options.limit ?? remaining.length;
+    const page = remaining.slice(0, limit);
+    const remainingItemCount = remaining.length - page.length;
+
+    return {
+      items: page.map((entry) => entry.obj),
+      continue:
+        remainingItemCount > 0
+          ? encodeContinueToken(page[page.length - 1].key)
+          : undefined,
+      remainingItemCount:
+        remainingItemCount > 0 ? remainingItemCount : undefined,
+    };
+  }
+
+  /**
+   * Get a cached object, or undefined when the caller must query the API.
+   * Objects not in the cache are treated as misses because they may have
+   * been created after the last watch event.
+   */
+  get(namespace: string, name: string, consistent?: boolean): T | undefined {
+    if (consistent) {
+      this.metrics.bypasses++;
+      return undefined;
+    }
+
+    const obj =
+      this.synced && this.informer
+        ? this.informer.get(name, namespace)
+        : undefined;
+
+    if (obj) {
+      this.metrics.hits++;
+    } else {
+      this.metrics.misses++;
+    }
+    return obj;
+  }
+
+  getStatus(): CacheStatus {
+    return {
+      synced: this.synced,
+      objects: this.informer?.list().length ?? 0,
+      ...this.metrics,
+    };
+  }
+}
+
+export class CacheService {
+  readonly pods = new InformerCache<k8s.V1Pod>("pods", "/api/v1/pods", () =>
+    coreV1Api.listPodForAllNamespaces(),
+  );
+
+  readonly services = new InformerCache<k8s.V1Service>(
+    "services",
+    "/api/v1/services",
+    () => coreV1Api.listServiceForAllNamespaces(),
+  );
+
+  readonly ingresses = new InformerCache<k8s.V1Ingress>(
+    "ingresses",
+    "/apis/networking.k8s.io/v1/ingresses",
+    () => networkingV1Api.listIngressForAllNamespaces(),
+  );
+
+  /**
+   * Start all informers and wait for their initial sync
+   */
+  async start(): Promise<void> {
+    await Promise.all([
+      this.pods.start(),
+      this.services.start(),
+      this.ingresses.start(),
+    ]);
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all([
+      this.pods.stop(),
+      this.services.stop(),
+      this.ingresses.stop(),
+    ]);
+  }
+
+  /**
+   * Sync state and hit/miss counters per resource, for the health endpoint
+   */
+  getStatus(): Record<string, CacheStatus> {
+    return {
+      pods: this.pods.getStatus(),
+      services: this.services.getStatus(),
+      ingresses: this.ingresses.getStatus(),
+    };
+  }
+}
+
+export const cacheService = new CacheService();
@@ -0,0 +1,141 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import type {
+  CreateConfigMapInput,
+  UpdateConfigMapInput,
+} from "../validators/configmap.validator.js";
+import type { ConfigMapResponse } from "../types/configmap.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+export class ConfigMapService {
+  /**
+   * List one page of config maps, optionally filtered by namespace
+   */
+  async listConfigMaps(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<ConfigMapResponse>> {
+    let response: k8s.V1ConfigMapList;
+
+    if (namespace) {
+      const result = await coreV1Api.listNamespacedConfigMap(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    } else {
+      const result = await coreV1Api.listConfigMapForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    }
+
+    return {
+      items: response.items.map((cm) => this.mapConfigMapToResponse(cm)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * Get a specific config map by name and namespace
+   */
+  async getConfigMap(
+    namespace: string,
+    name: string,
+  ): Promise<ConfigMapResponse> {
+    const result = await coreV1Api.readNamespacedConfigMap(name, namespace);
+    return this.mapConfigMapToResponse(result.body);
+  }
+
+  /**
+   * Create a new config map
+   */
+  async createConfigMap(
+    input: CreateConfigMapInput,
+  ): Promise<ConfigMapResponse> {
+    const configMap: k8s.V1ConfigMap = {
+      apiVersion: "v1",
+      kind: "ConfigMap",
+      metadata: {
+        name: input.name,
+        namespace: input.namespace,
+        labels: input.labels,
+      },
+      data: input.data,
+      binaryData: input.binaryData,
+      immutable: input.immutable,
+    };
+
+    const result = await coreV1Api.createNamespacedConfigMap(
+      input.namespace || "default",
+      configMap,
+    );
+
+    return this.mapConfigMapToResponse(result.body);
+  }
+
+  /**
+   * Replace the contents of a config map; data or binaryData left out of
+   * the input keep their current value. Pods see the new data in mounted
+   * volumes after the kubelet sync period; env vars only change on restart.
+   */
+  async updateConfigMap(
+    namespace: string,
+    name: string,
+    input: UpdateConfigMapInput,
+  ): Promise<ConfigMapResponse> {
+    const existing = await coreV1Api.readNamespacedConfigMap(name, namespace);
+
+    const configMap: k8s.V1ConfigMap = {
+      ...existing.body,
+      metadata: {
+        ...existing.body.metadata,
+        labels: input.labels ?? existing.body.metadata?.labels,
+      },
+      data: input.data ?? existing.body.data,
+      binaryData: input.binaryData ?? existing.body.binaryData,
+    };
+
+    const result = await coreV1Api.replaceNamespacedConfigMap(
+      name,
+      namespace,
+      configMap,
+    );
+
+    return this.mapConfigMapToResponse(result.body);
+  }
+
+  /**
+   * Delete a config map
+   */
+  async deleteConfigMap(namespace: string, name: string): Promise<void> {
+    await coreV1Api.deleteNamespacedConfigMap(name, namespace);
+  }
+
+  /**
+   * Map Kubernetes ConfigMap object to API response
+   */
+  mapConfigMapToResponse(cm: k8s.V1ConfigMap): ConfigMapResponse {
+    return {
+      name: cm.metadata?.name || "",
+      namespace: cm.metadata?.namespace || "",
+      data: cm.data || {},
+      binaryData: cm.binaryData,
+      labels: cm.metadata?.labels,
+      immutable: cm.immutable,
+      creationTimestamp: cm.metadata?.creationTimestamp,
+    };
+  }
+}
+
+export const configMapService = new ConfigMapService();
@@ -0,0 +1,559 @@
+import * as k8s from "@kubernetes/client-node";
+import { appsV1Api, coreV1Api } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { podService } from "./pod.service.js";
+import { waitService } from "./wait.service.js";
+import type {
+  CreateDeploymentInput,
+  UpdateDeploymentImageInput,
+  ScaleDeploymentInput,
+  RollbackDeploymentInput,
+} from "../validators/deployment.validator.js";
+import type {
+  DeploymentResponse,
+  DeploymentContainer,
+  DeploymentCondition,
+  DeploymentRevision,
+  DeploymentRolloutStatus,
+} from "../types/deployment.types.js";
+import type { WaitResult } from "../types/wait.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+const CHANGE_CAUSE_ANNOTATION = "kubernetes.io/change-cause";
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+const POD_TEMPLATE_HASH_LABEL = "pod-template-hash";
+
+type PatchContentType =
+  | "application/merge-patch+json"
+  | "application/strategic-merge-patch+json"
+  | "application/json-patch+json";
+
+export class DeploymentService {
+  /**
+   * List one page of deployments, optionally filtered by namespace
+   */
+  async listDeployments(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<DeploymentResponse>> {
+    let response: k8s.V1DeploymentList;
+
+    if (namespace) {
+      const result = await appsV1Api.listNamespacedDeployment(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    } else {
+      const result = await appsV1Api.listDeploymentForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    }
+
+    return {
+      items: response.items.map((deploy) =>
+        this.mapDeploymentToResponse(deploy),
+      ),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * Get a specific deployment by name and namespace
+   */
+  async getDeployment(
+    namespace: string,
+    name: string,
+  ): Promise<DeploymentResponse> {
+    const result = await appsV1Api.readNamespacedDeployment(name, namespace);
+    return this.mapDeploymentToResponse(result.body);
+  }
+
+  /**
+   * Create a new deployment with a single-container pod template
+   */
+  async createDeployment(
+    input: CreateDeploymentInput,
+  ): Promise<DeploymentResponse> {
+    const selector = input.selector || { app: input.name };
+    const { template } = input;
+
+    const deployment: k8s.V1Deployment = {
+      apiVersion: "apps/v1",
+      kind: "Deployment",
+      metadata: {
+        name: input.name,
+        namespace: input.namespace,
+        labels: input.labels || { app: input.name },
+      },
+      spec: {
+        replicas: input.replicas,
+        selector: { matchLabels: selector },
+        template: {
+          metadata: {
+            // Pods must carry the selector labels, including the default one
+            labels: { ...template.labels, ...selector },
+          },
+          spec: {
+            containers: [
+              {
+                name: input.name,
+                image: template.image,
+                resources: template.resources
+                  ? {
+                      requests: template.resources.requests,
+                      limits: template.resources.limits,
+                    }
+                  : undefined,
+                env: template.env?.map((e) => ({
+                  name: e.name,
+                  value: e.value,
+                  valueFrom: e.valueFrom,
+                })),
+                command: template.command,
+                args: template.args,
+              },
+            ],
+          },
+        },
+      },
+    };
+
+    const result = await appsV1Api.createNamespacedDeployment(
+      input.namespace || "default",
+      deployment,
+    );
+
+    return this.mapDeploymentToResponse(result.body);
+  }
+
+  /**
+   * Watch a deployment until its rollout completes, fails, or the timeout
+   * elapses. When it does not complete, the reason is taken from the first
+   * failing pod (e.g. ImagePullBackOff) if there is one.
+   */
+  async waitForDeployment(
+    namespace: string,
+    name: string,
+    timeoutSeconds: number,
+  ): Promise<{ deployment?: DeploymentResponse; wait: WaitResult }> {
+    const { object, result } = await waitService.waitFor<k8s.V1Deployment>(
+      `/apis/apps/v1/namespaces/${namespace}/deployments`,
+      name,
+      timeoutSeconds,
+      (deploy) => {
+        const rollout = this.getRolloutStatus(deploy);
+        if (rollout.state === "Complete") {
+          return { outcome: "Ready" };
+        }
+        if (rollout.state === "Failed") {
+          return {
+            outcome: "Failed",
+            reason: "ProgressDeadlineExceeded",
+            message: rollout.message,
+          };
+        }
+        return undefined;
+      },
+    );
+
+    if (object && result.outcome !== "Ready") {
+      const podFailure = await this.findFailingPod(object);
+      if (podFailure) {
+        result.reason = podFailure.reason;
+        result.message = podFailure.message;
+      } else if (result.outcome === "Timeout") {
+        result.message = this.getRolloutStatus(object).message;
+      }
+    }
+
+    return {
+      deployment: object ? this.mapDeploymentToResponse(object) : undefined,
+      wait: result,
+    };
+  }
+
+  /**
+   * Update the image of one container in the pod template, triggering a rollout
+   */
+  async updateDeploymentImage(
+    namespace: string,
+    name: string,
+    input: UpdateDeploymentImageInput,
+  ): Promise<DeploymentResponse> {
+    let container = input.container;
+
+    if (!container) {
+      const current = await appsV1Api.readNamespacedDeployment(name, namespace);
+      container = current.body.spec?.template.spec?.containers[0]?.name;
+    }
+
+    // Strategic merge patch merges containers by name instead of replacing the list
+    const patchBody = {
+      spec: {
+        template: {
+          spec: {
+            containers: [{ name: container, image: input.image }],
+          },
+        },
+      },
+    };
+
+    return this.patchDeployment(
+      namespace,
+      name,
+      patchBody,
+      "application/strategic-merge-patch+json",
+    );
+  }
+
+  /**
+   * Set the desired replica count
+   */
+  async scaleDeployment(
+    namespace: string,
+    name: string,
+    input: ScaleDeploymentInput,
+  ): Promise<DeploymentResponse> {
+    return this.patchDeployment(
+      namespace,
+      name,
+      { spec: { replicas: input.replicas } },
+      "application/merge-patch+json",
+    );
+  }
+
+  /**
+   * Restart all pods by stamping the pod template, like `kubectl rollout restart`
+   */
+  async restartDeployment(
+    namespace: string,
+    name: string,
+  ): Promise<DeploymentResponse> {
+    const patchBody = {
+      spec: {
+        template: {
+          metadata: {
+            annotations: {
+              [RESTARTED_AT_ANNOTATION]: new Date().toISOString(),
+            },
+          },
+        },
+      },
+    };
+
+    return this.patchDeployment(
+      namespace,
+      name,
+      patchBody,
+      "application/merge-patch+json",
+    );
+  }
+
+  /**
+   * List the ReplicaSet revisions owned by a deployment, oldest first
+   */
+  async getDeploymentHistory(
+    namespace: string,
+    name: string,
+  ): Promise<DeploymentRevision[]> {
+    const result = await appsV1Api.readNamespacedDeployment(name, namespace);
+    const replicaSets = await this.listOwnedReplicaSets(result.body);
+    const currentRevision = this.getRevision(result.body.metadata);
+
+    return replicaSets.map((rs) => {
+      const revision = this.getRevision(rs.metadata) ?? 0;
+      return {
+        revision,
+        replicaSet: rs.metadata?.name || "",
+        images: (rs.spec?.template?.spec?.containers || []).map(
+          (c) => c.image || "",
+        ),
+        replicas: rs.status?.replicas || 0,
+        readyReplicas: rs.status?.readyReplicas || 0,
+        changeCause: rs.metadata?.annotations?.[CHANGE_CAUSE_ANNOTATION],
+        current: revision === currentRevision,
+        creationTimestamp: rs.metadata?.creationTimestamp,
+      };
+    });
+  }
+
+  /**
+   * Roll the pod template back to an earlier revision, like `kubectl rollout undo`
+   */
+  async rollbackDeployment(
+    namespace: string,
+    name: string,
+    input: RollbackDeploymentInput,
+  ): Promise<DeploymentResponse> {
+    const result = await appsV1Api.readNamespacedDeployment(name, namespace);
+    const deployment = result.body;
+    const replicaSets = await this.listOwnedReplicaSets(deployment);
+    const currentRevision = this.getRevision(deployment.metadata);
+
+    const target = input.revision
+      ? replicaSets.find(
+          (rs) => this.getRevision(rs.metadata) === input.revision,
+        )
+      : replicaSets
+          .filter((rs) => this.getRevision(rs.metadata) !== currentRevision)
+          .pop();
+
+    if (!target?.spec?.template) {
+      throw new HttpStatusError(
+        input.revision ? 404 : 400,
+        input.revision
+          ? `Revision ${input.revision} not found for deployment ${name}`
+          : `Deployment ${name} has no previous revision to roll back to`,
+      );
+    }
+
+    // Rolling back to the current revision is a no-op
+    if (this.getRevision(target.metadata) === currentRevision) {
+      return this.mapDeploymentToResponse(deployment);
+    }
+
+    const template = k8s.ObjectSerializer.serialize(
+      target.spec.template,
+      "V1PodTemplateSpec",
+    );
+    delete template.metadata?.labels?.[POD_TEMPLATE_HASH_LABEL];
+
+    return this.patchDeployment(
+      namespace,
+      name,
+      [{ op: "replace", path: "/spec/template", value: template }],
+      "application/json-patch+json",
+    );
+  }
+
+  /**
+   * Delete a deployment (its ReplicaSets and pods are garbage collected)
+   */
+  async deleteDeployment(namespace: string, name: string): Promise<void> {
+    await appsV1Api.deleteNamespacedDeployment(name, namespace);
+  }
+
+  /**
+   * Apply a patch to a deployment and map the result
+   */
+  private async patchDeployment(
+    namespace: string,
+    name: string,
+    patchBody: object,
+    contentType: PatchContentType,
+  ): Promise<DeploymentResponse> {
+    const result = await appsV1Api.patchNamespacedDeployment(
+      name,
+      namespace,
+      patchBody,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": contentType } },
+    );
+
+    return this.mapDeploymentToResponse(result.body);
+  }
+
+  /**
+   * List ReplicaSets controlled by the deployment, sorted by revision
+   */
+  private async listOwnedReplicaSets(
+    deployment: k8s.V1Deployment,
+  ): Promise<k8s.V1ReplicaSet[]> {
+    const labelSelector = this.getLabelSelector(deployment);
+
+    const result = await appsV1Api.listNamespacedReplicaSet(
+      deployment.metadata?.namespace || "default",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      labelSelector || undefined,
+    );
+
+    return result.body.items
+      .filter((rs) =>
+        rs.metadata?.ownerReferences?.some(
+          (ref) => ref.controller && ref.uid === deployment.metadata?.uid,
+        ),
+      )
+      .sort(
+        (a, b) =>
+          (this.getRevision(a.metadata) ?? 0) -
+          (this.getRevision(b.metadata) ?? 0),
+      );
+  }
+
+  /**
+   * Find the first pod of a deployment stuck in a failure state
+   */
+  private async findFailingPod(
+    deployment: k8s.V1Deployment,
+  ): Promise<{ reason?: string; message?: string } | undefined> {
+    const result = await coreV1Api.listNamespacedPod(
+      deployment.metadata?.namespace || "default",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      this.getLabelSelector(deployment) || undefined,
+    );
+
+    for (const pod of result.body.items) {
+      const check = podService.getPodWaitCheck(pod);
+      if (check?.outcome === "Failed") {
+        return { reason: check.reason, message: check.message };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Build a label selector string from the deployment's matchLabels
+   */
+  private getLabelSelector(deployment: k8s.V1Deployment): string {
+    return Object.entries(deployment.spec?.selector.matchLabels || {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join(",");
+  }
+
+  /**
+   * Read the rollout revision annotation
+   */
+  private getRevision(metadata?: k8s.V1ObjectMeta): number | undefined {
+    const revision = metadata?.annotations?.[REVISION_ANNOTATION];
+    return revision ? parseInt(revision, 10) : undefined;
+  }
+
+  /**
+   * Derive rollout progress following the checks of `kubectl rollout status`
+   */
+  private getRolloutStatus(deploy: k8s.V1Deployment): DeploymentRolloutStatus {
+    const revision = this.getRevision(deploy.metadata);
+    const desired = deploy.spec?.replicas ?? 1;
+    const status = deploy.status;
+    const updated = status?.updatedReplicas || 0;
+    const available = status?.availableReplicas || 0;
+    const total = status?.replicas || 0;
+
+    if (
+      (deploy.metadata?.generation ?? 0) > (status?.observedGeneration ?? 0)
+    ) {
+      return {
+        state: "Progressing",
+        message: "Waiting for deployment spec update to be observed",
+        revision,
+      };
+    }
+
+    const progressing = status?.conditions?.find(
+      (c) => c.type === "Progressing",
+    );
+    if (progressing?.reason === "ProgressDeadlineExceeded") {
+      return {
+        state: "Failed",
+        message: `Deployment ${deploy.metadata?.name} exceeded its progress deadline`,
+        revision,
+      };
+    }
+
+    if (updated < desired) {
+      return {
+        state: "Progressing",
+        message: `${updated} out of ${desired} new replicas have been updated`,
+        revision,
+      };
+    }
+
+    if (total > updated) {
+      return {
+        state: "Progressing",
+        message: `${total - updated} old replicas are pending termination`,
+        revision,
+      };
+    }
+
+    if (available < updated) {
+      return {
+        state: "Progressing",
+        message: `${available} of ${updated} updated replicas are available`,
+        revision,
+      };
+    }
+
+    return {
+      state: "Complete",
+      message: "Deployment successfully rolled out",
+      revision,
+    };
+  }
+
+  /**
+   * Map Kubernetes Deployment object to API response
+   */
+  private mapDeploymentToResponse(
+    deploy: k8s.V1Deployment,
+  ): DeploymentResponse {
+    const containers: DeploymentContainer[] = (
+      deploy.spec?.template.spec?.containers || []
+    ).map((container) => ({
+      name: container.name,
+      image: container.image || "",
+      resources: container.resources
+        ? {
+            requests: container.resources.requests as
+              | Record<string, string>
+              | undefined,
+            limits: container.resources.limits as
+              | Record<string, string>
+              | undefined,
+          }
+        : undefined,
+    }));
+
+    const conditions: DeploymentCondition[] = (
+      deploy.status?.conditions || []
+    ).map((c) => ({
+      type: c.type,
+      status: c.status,
+      reason: c.reason,
+      message: c.message,
+      lastUpdateTime: c.lastUpdateTime,
+    }));
+
+    return {
+      name: deploy.metadata?.name || "",
+      namespace: deploy.metadata?.namespace || "default",
+      replicas: deploy.spec?.replicas ?? 1,
+      readyReplicas: deploy.status?.readyReplicas || 0,
+      updatedReplicas: deploy.status?.updatedReplicas || 0,
+      availableReplicas: deploy.status?.availableReplicas || 0,
+      unavailableReplicas: deploy.status?.unavailableReplicas || 0,
+      selector: deploy.spec?.selector.matchLabels,
+      containers,
+      conditions,
+      rollout: this.getRolloutStatus(deploy),
+      labels: deploy.metadata?.labels,
+      creationTimestamp: deploy.metadata?.creationTimestamp,
+    };
+  }
+}
+
+export const deploymentService = new DeploymentService();
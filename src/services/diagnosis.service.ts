@@ -0,0 +1,250 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import { podService } from "./pod.service.js";
+import { eventService } from "./event.service.js";
+import type {
+  DiagnosisFinding,
+  PodDiagnosis,
+} from "../types/diagnosis.types.js";
+import type { EventResponse } from "../types/event.types.js";
+import type { ContainerInfo, PodResponse } from "../types/pod.types.js";
+
+// Waiting reasons that only mean the container is on its way up
+const STARTING_REASONS = ["ContainerCreating", "PodInitializing"];
+
+export class DiagnosisService {
+  /**
+   * Explain why a pod is unhealthy from its status, scheduling conditions,
+   * container states and warning events
+   */
+  async diagnosePod(namespace: string, name: string): Promise<PodDiagnosis> {
+    // Read from the API server: a stale cached status would mislead
+    const [result, events] = await Promise.all([
+      coreV1Api.readNamespacedPod(name, namespace),
+      eventService.listPodEvents(namespace, name),
+    ]);
+    const pod = podService.mapPodToResponse(result.body);
+
+    const findings = [
+      ...this.checkPod(result.body),
+      ...this.checkScheduling(pod),
+      ...(pod.initContainers || []).flatMap((container) =>
+        this.checkContainer(container, "initContainer"),
+      ),
+      ...pod.containers.flatMap((container) =>
+        this.checkContainer(container, "container"),
+      ),
+      ...this.checkEvents(events),
+    ];
+
+    const healthy =
+      pod.phase === "Succeeded" ||
+      (pod.phase === "Running" &&
+        !result.body.metadata?.deletionTimestamp &&
+        pod.containers.every((container) => container.ready));
+
+    return {
+      name: pod.name,
+      namespace: pod.namespace,
+      phase: pod.phase,
+      status: pod.status,
+      healthy,
+      summary: this.summarize(pod, healthy, findings),
+      findings,
+      conditions: pod.conditions,
+      containers: pod.containers,
+      initContainers: pod.initContainers,
+      events,
+    };
+  }
+
+  private checkPod(pod: k8s.V1Pod): DiagnosisFinding[] {
+    const findings: DiagnosisFinding[] = [];
+
+    if (pod.metadata?.deletionTimestamp) {
+      const finalizers = pod.metadata.finalizers || [];
+      findings.push({
+        source: "pod",
+        reason: "Terminating",
+        message: finalizers.length
+          ? `Pod is being deleted and waits for finalizers: ${finalizers.join(", ")}`
+          : "Pod is being deleted; containers are shutting down",
+      });
+    }
+
+    // Pod-level failures such as Evicted or DeadlineExceeded
+    if (pod.status?.reason) {
+      findings.push({
+        source: "pod",
+        reason: pod.status.reason,
+        message: pod.status.message
+          ? `Pod ${pod.status.reason}: ${pod.status.message}`
+          : `Pod ${pod.status.reason}`,
+      });
+    }
+
+    return findings;
+  }
+
+  private checkScheduling(pod: PodResponse): DiagnosisFinding[] {
+    const scheduled = pod.conditions.find((c) => c.type === "PodScheduled");
+
+    if (scheduled?.status === "False") {
+      return [
+        {
+          source: "scheduling",
+          reason: scheduled.reason,
+          message: `Pod cannot be scheduled: ${scheduled.message || scheduled.reason || "no node fits"}`,
+        },
+      ];
+    }
+    if (!pod.nodeName && pod.phase === "Pending") {
+      return [
+        {
+          source: "scheduling",
+          message: "Pod is waiting to be scheduled onto a node",
+        },
+      ];
+    }
+    return [];
+  }
+
+  private checkContainer(
+    container: ContainerInfo,
+    source: "initContainer" | "container",
+  ): DiagnosisFinding[] {
+    const label = `${source === "initContainer" ? "Init container" : "Container"} "${container.name}"`;
+    const finding = (reason: string | undefined, message: string) => ({
+      source,
+      container: container.name,
+      reason,
+      message,
+    });
+    const { state, lastState } = container;
+    const findings: DiagnosisFinding[] = [];
+
+    if (state?.state === "waiting" && state.reason) {
+      const detail = state.message ? `: ${state.message}` : "";
+
+      switch (state.reason) {
+        case "ErrImagePull":
+        case "ImagePullBackOff":
+        case "InvalidImageName":
+          findings.push(
+            finding(
+              state.reason,
+              `${label} cannot pull image "${container.image}"${detail}. Check the image name and tag, and the imagePullSecrets for private registries`,
+            ),
+          );
+          break;
+        case "CrashLoopBackOff":
+          findings.push(
+            finding(
+              state.reason,
+              `${label} keeps crashing (${container.restartCount} restarts)${this.describeExit(lastState)}; check its logs with ?previous=true`,
+            ),
+          );
+          break;
+        case "CreateContainerConfigError":
+        case "CreateContainerError":
+          findings.push(
+            finding(
+              state.reason,
+              `${label} cannot be created${detail}. Check referenced ConfigMaps, Secrets and the security context`,
+            ),
+          );
+          break;
+        default:
+          if (!STARTING_REASONS.includes(state.reason)) {
+            findings.push(
+              finding(
+                state.reason,
+                `${label} is waiting: ${state.reason}${detail}`,
+              ),
+            );
+          }
+      }
+    } else if (
+      state?.state === "terminated" &&
+      state.exitCode !== 0 &&
+      state.exitCode !== undefined
+    ) {
+      findings.push(
+        finding(state.reason, `${label} failed${this.describeExit(state)}`),
+      );
+    } else if (
+      source === "container" &&
+      state?.state === "running" &&
+      !container.ready
+    ) {
+      findings.push(
+        finding(
+          "NotReady",
+          container.probes?.readiness
+            ? `${label} is running but its readiness probe is not passing`
+            : `${label} is running but not ready`,
+        ),
+      );
+    }
+
+    // A restart after running out of memory is worth flagging on its own
+    if (
+      lastState?.reason === "OOMKilled" &&
+      state?.reason !== "CrashLoopBackOff"
+    ) {
+      findings.push(
+        finding(
+          "OOMKilled",
+          `${label} was restarted after exceeding its memory limit`,
+        ),
+      );
+    }
+
+    return findings;
+  }
+
+  /**
+   * One finding per warning reason, keeping the latest message
+   */
+  private checkEvents(events: EventResponse[]): DiagnosisFinding[] {
+    const latest = new Map<string, EventResponse>();
+    for (const event of events) {
+      if (event.type === "Warning") {
+        latest.set(event.reason || "", event);
+      }
+    }
+
+    return [...latest.values()].map((event) => ({
+      source: "event" as const,
+      reason: event.reason,
+      message: `${event.reason}: ${event.message || ""}${event.count > 1 ? ` (x${event.count})` : ""}`,
+    }));
+  }
+
+  private describeExit(state?: ContainerInfo["state"]): string {
+    if (state?.state !== "terminated") return "";
+
+    const reason =
+      state.reason && state.reason !== "Error" ? ` (${state.reason})` : "";
+    return `; last exit code ${state.exitCode}${reason}`;
+  }
+
+  private summarize(
+    pod: PodResponse,
+    healthy: boolean,
+    findings: DiagnosisFinding[],
+  ): string {
+    if (findings.length > 0 && !healthy) {
+      return findings[0].message;
+    }
+    if (pod.phase === "Succeeded") {
+      return "Pod completed successfully";
+    }
+    if (healthy) {
+      return "Pod is running and all containers are ready";
+    }
+    return `Pod is ${pod.status}; no problems found yet`;
+  }
+}
+
+export const diagnosisService = new DiagnosisService();
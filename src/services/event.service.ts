@@ -0,0 +1,115 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import type { EventFilter, EventResponse } from "../types/event.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+export class EventService {
+  /**
+   * List one page of events, optionally filtered by namespace, involved
+   * object and type. Events are returned in the API server's order.
+   */
+  async listEvents(
+    namespace?: string,
+    filter: EventFilter = {},
+    options: ListOptions = {},
+  ): Promise<ListResult<EventResponse>> {
+    const fieldSelector = this.buildFieldSelector(
+      filter,
+      options.fieldSelector,
+    );
+    let response: k8s.CoreV1EventList;
+
+    if (namespace) {
+      const result = await coreV1Api.listNamespacedEvent(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    } else {
+      const result = await coreV1Api.listEventForAllNamespaces(
+        undefined,
+        options.continue,
+        fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    }
+
+    return {
+      items: response.items.map((event) => this.mapEventToResponse(event)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * All events of one pod, oldest first like `kubectl describe`
+   */
+  async listPodEvents(
+    namespace: string,
+    name: string,
+  ): Promise<EventResponse[]> {
+    const page = await this.listEvents(namespace, { kind: "Pod", name });
+
+    return page.items.sort(
+      (a, b) =>
+        (a.lastTimestamp?.getTime() ?? 0) - (b.lastTimestamp?.getTime() ?? 0),
+    );
+  }
+
+  /**
+   * Map Kubernetes Event object to API response. Events recorded through
+   * the events.k8s.io API only set eventTime/series, so fall back to those.
+   */
+  mapEventToResponse(event: k8s.CoreV1Event): EventResponse {
+    const lastTimestamp =
+      event.lastTimestamp ||
+      event.series?.lastObservedTime ||
+      event.eventTime ||
+      event.metadata?.creationTimestamp;
+
+    return {
+      name: event.metadata?.name || "",
+      namespace: event.metadata?.namespace || "default",
+      type: event.type === "Warning" ? "Warning" : "Normal",
+      reason: event.reason,
+      message: event.message,
+      involvedObject: {
+        kind: event.involvedObject.kind || "",
+        name: event.involvedObject.name || "",
+        namespace: event.involvedObject.namespace,
+        uid: event.involvedObject.uid,
+      },
+      count: event.count || event.series?.count || 1,
+      firstTimestamp: event.firstTimestamp || event.eventTime || lastTimestamp,
+      lastTimestamp,
+      source: event.source?.component || event.reportingComponent || undefined,
+    };
+  }
+
+  /**
+   * AND the filters onto a caller-supplied field selector
+   */
+  private buildFieldSelector(
+    filter: EventFilter,
+    fieldSelector?: string,
+  ): string | undefined {
+    const requirements = [
+      fieldSelector,
+      filter.kind && `involvedObject.kind=${filter.kind}`,
+      filter.name && `involvedObject.name=${filter.name}`,
+      filter.uid && `involvedObject.uid=${filter.uid}`,
+      filter.type && `type=${filter.type}`,
+    ].filter(Boolean);
+
+    return requirements.length ? requirements.join(",") : undefined;
+  }
+}
+
+export const eventService = new EventService();
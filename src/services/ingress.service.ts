@@ -1,5 +1,6 @@
 import * as k8s from "@kubernetes/client-node";
 import { networkingV1Api } from "../config/k8s.config.js";
+import { cacheService } from "./cache.service.js";
 import type { CreateIngressInput } from "../validators/ingress.validator.js";
 import type {
   IngressResponse,
@@ -7,29 +8,74 @@ import type {
   IngressPath,
   TraefikConfig,
 } from "../types/ingress.types.js";
+import type { ReadOptions } from "../types/cache.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
 
 export class IngressService {
   /**
-   * List all ingresses, optionally filtered by namespace
+   * List one page of ingresses, optionally filtered by namespace.
+   * Served from the informer cache unless options.consistent is set.
    */
-  async listIngresses(namespace?: string): Promise<IngressResponse[]> {
+  async listIngresses(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<IngressResponse>> {
+    const cached = cacheService.ingresses.list(namespace, options);
+    if (cached) {
+      return {
+        ...cached,
+        items: cached.items.map((ing) => this.mapIngressToResponse(ing)),
+      };
+    }
+
     let response: k8s.V1IngressList;
 
     if (namespace) {
-      const result = await networkingV1Api.listNamespacedIngress(namespace);
+      const result = await networkingV1Api.listNamespacedIngress(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     } else {
-      const result = await networkingV1Api.listIngressForAllNamespaces();
+      const result = await networkingV1Api.listIngressForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     }
 
-    return response.items.map((ing) => this.mapIngressToResponse(ing));
+    return {
+      items: response.items.map((ing) => this.mapIngressToResponse(ing)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
   }
 
   /**
    * Get a specific ingress by name and namespace
    */
-  async getIngress(namespace: string, name: string): Promise<IngressResponse> {
+  async getIngress(
+    namespace: string,
+    name: string,
+    options: ReadOptions = {},
+  ): Promise<IngressResponse> {
+    const cached = cacheService.ingresses.get(
+      namespace,
+      name,
+      options.consistent,
+    );
+    if (cached) {
+      return this.mapIngressToResponse(cached);
+    }
+
     const result = await networkingV1Api.readNamespacedIngress(name, namespace);
     return this.mapIngressToResponse(result.body);
   }
@@ -205,7 +251,7 @@ export class IngressService {
   /**
    * Map Kubernetes Ingress object to API response
    */
-  private mapIngressToResponse(ing: k8s.V1Ingress): IngressResponse {
+  mapIngressToResponse(ing: k8s.V1Ingress): IngressResponse {
     const rules: IngressRule[] = (ing.spec?.rules || []).map((rule) => ({
       host: rule.host || "",
       paths: (rule.http?.paths || []).map(
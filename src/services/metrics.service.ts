@@ -0,0 +1,225 @@
+import * as k8s from "@kubernetes/client-node";
+import { kc } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { podService } from "./pod.service.js";
+import type {
+  ContainerMetrics,
+  PodMetricsResponse,
+  ResourceMetric,
+} from "../types/metrics.types.js";
+import type { ContainerInfo, PodResponse } from "../types/pod.types.js";
+import type { PodMetricsQuery } from "../validators/metrics.validator.js";
+
+const QUANTITY =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)(Ki|Mi|Gi|Ti|Pi|Ei|n|u|m|k|M|G|T|P|E)?$/;
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  E: 1e18,
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  Pi: 2 ** 50,
+  Ei: 2 ** 60,
+};
+
+export class MetricsService {
+  /**
+   * Current usage of one pod's containers against their requests and limits
+   */
+  async getPodMetrics(
+    namespace: string,
+    name: string,
+  ): Promise<PodMetricsResponse> {
+    const pod = await podService.getPod(namespace, name);
+
+    let metrics: k8s.PodMetric;
+    try {
+      metrics = await new k8s.Metrics(kc).getPodMetrics(namespace, name);
+    } catch (error) {
+      // The pod exists, so a 404 means metrics-server has no sample yet
+      if (error instanceof k8s.HttpError && error.statusCode === 404) {
+        throw new HttpStatusError(
+          404,
+          `No metrics for pod ${name} yet; metrics-server reports usage about a minute after a container starts`,
+        );
+      }
+      throw error;
+    }
+
+    return this.mapPodMetricsToResponse(metrics, pod);
+  }
+
+  /**
+   * Current usage of all pods, optionally filtered by namespace and labels.
+   * Pods without a metrics sample yet are left out.
+   */
+  async listPodMetrics(
+    query: PodMetricsQuery = {},
+  ): Promise<PodMetricsResponse[]> {
+    const { namespace, labelSelector } = query;
+
+    const [metrics, pods] = await Promise.all([
+      this.listMetrics(namespace, labelSelector),
+      podService.listPods(namespace, { labelSelector }),
+    ]);
+
+    const podsByKey = new Map(
+      pods.items.map((pod) => [`${pod.namespace}/${pod.name}`, pod]),
+    );
+
+    return metrics.items.map((item) =>
+      this.mapPodMetricsToResponse(
+        item,
+        podsByKey.get(`${item.metadata.namespace}/${item.metadata.name}`),
+      ),
+    );
+  }
+
+  /**
+   * Join a PodMetrics sample with the pod's requests and limits. Without a
+   * pod (deleted since the sample) only usage is reported.
+   */
+  mapPodMetricsToResponse(
+    metrics: k8s.PodMetric,
+    pod?: PodResponse,
+  ): PodMetricsResponse {
+    const specs = new Map(
+      (pod?.containers || []).map((container) => [container.name, container]),
+    );
+
+    const containers: ContainerMetrics[] = metrics.containers.map(
+      (container) => {
+        const spec = specs.get(container.name);
+        return {
+          name: container.name,
+          cpu: this.buildMetric(
+            this.toMillicores(container.usage.cpu),
+            spec,
+            "cpu",
+            (quantity) => this.toMillicores(quantity),
+          ),
+          memory: this.buildMetric(
+            this.toBytes(container.usage.memory),
+            spec,
+            "memory",
+            (quantity) => this.toBytes(quantity),
+          ),
+        };
+      },
+    );
+
+    return {
+      name: metrics.metadata.name,
+      namespace: metrics.metadata.namespace,
+      timestamp: metrics.timestamp,
+      window: metrics.window,
+      containers,
+      cpu: this.sumMetrics(containers.map((container) => container.cpu)),
+      memory: this.sumMetrics(containers.map((container) => container.memory)),
+    };
+  }
+
+  /**
+   * Convert a CPU quantity ("250m", "1", "123456n") to millicores
+   */
+  toMillicores(quantity: string): number {
+    return Math.round(this.parseQuantity(quantity) * 1000);
+  }
+
+  /**
+   * Convert a memory quantity ("64Mi", "1G", "1048576") to bytes
+   */
+  toBytes(quantity: string): number {
+    return Math.round(this.parseQuantity(quantity));
+  }
+
+  private async listMetrics(
+    namespace?: string,
+    labelSelector?: string,
+  ): Promise<k8s.PodMetricsList> {
+    const metrics = new k8s.Metrics(kc);
+    const options = { labelSelector };
+
+    try {
+      // Passing an undefined namespace would make the client drop options
+      return namespace
+        ? await metrics.getPodMetrics(namespace, options)
+        : await metrics.getPodMetrics(options);
+    } catch (error) {
+      if (error instanceof k8s.HttpError && error.statusCode === 404) {
+        throw new HttpStatusError(
+          503,
+          "The metrics.k8s.io API is not available; check that metrics-server is running",
+        );
+      }
+      throw error;
+    }
+  }
+
+  private buildMetric(
+    usage: number,
+    container: ContainerInfo | undefined,
+    resource: "cpu" | "memory",
+    convert: (quantity: string) => number,
+  ): ResourceMetric {
+    const request = container?.resources?.requests?.[resource];
+    const limit = container?.resources?.limits?.[resource];
+
+    return this.withPercentages({
+      usage,
+      request: request ? convert(request) : undefined,
+      limit: limit ? convert(limit) : undefined,
+    });
+  }
+
+  private sumMetrics(metrics: ResourceMetric[]): ResourceMetric {
+    const total = (values: (number | undefined)[]) =>
+      values.every((value) => value !== undefined)
+        ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+        : undefined;
+
+    return this.withPercentages({
+      usage: metrics.reduce((sum, metric) => sum + metric.usage, 0),
+      request: total(metrics.map((metric) => metric.request)),
+      limit: total(metrics.map((metric) => metric.limit)),
+    });
+  }
+
+  private withPercentages(metric: ResourceMetric): ResourceMetric {
+    const percent = (of?: number) =>
+      of ? Math.round((metric.usage / of) * 1000) / 10 : undefined;
+
+    return {
+      ...metric,
+      percentOfRequest: percent(metric.request),
+      percentOfLimit: percent(metric.limit),
+    };
+  }
+
+  private parseQuantity(quantity: string): number {
+    const match = QUANTITY.exec(quantity.trim());
+    if (!match) {
+      // Quantities come from the API server or metrics-server, not the client
+      throw new HttpStatusError(
+        502,
+        `Invalid resource quantity "${quantity}" reported by the cluster`,
+      );
+    }
+    const value =
+      Number(match[1]) * (match[2] ? SUFFIX_MULTIPLIERS[match[2]] : 1);
+
+    // Drop float noise such as 3500u -> 0.0034999999 before rounding
+    return Number(value.toPrecision(12));
+  }
+}
+
+export const metricsService = new MetricsService();
@@ -1,26 +1,44 @@
 import * as k8s from "@kubernetes/client-node";
 import { coreV1Api } from "../config/k8s.config.js";
+import { getConfig } from "../config/index.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+import type {
+  CreateNamespaceInput,
+  UpdateNamespaceInput,
+} from "../validators/namespace.validator.js";
 
 export interface NamespaceResponse {
   name: string;
   status: string;
   creationTimestamp?: Date;
+  deletionTimestamp?: Date;
   labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  finalizers: string[];
 }
 
 export class NamespaceService {
   /**
-   * List all namespaces
+   * List one page of namespaces
    */
-  async listNamespaces(): Promise<NamespaceResponse[]> {
-    const result = await coreV1Api.listNamespace();
+  async listNamespaces(
+    options: ListOptions = {},
+  ): Promise<ListResult<NamespaceResponse>> {
+    const result = await coreV1Api.listNamespace(
+      undefined,
+      undefined,
+      options.continue,
+      options.fieldSelector,
+      options.labelSelector,
+      options.limit,
+    );
 
-    return result.body.items.map((ns: k8s.V1Namespace) => ({
-      name: ns.metadata?.name || "",
-      status: ns.status?.phase || "Unknown",
-      creationTimestamp: ns.metadata?.creationTimestamp,
-      labels: ns.metadata?.labels,
-    }));
+    return {
+      items: result.body.items.map((ns) => this.mapNamespaceToResponse(ns)),
+      continue: result.body.metadata?._continue,
+      remainingItemCount: result.body.metadata?.remainingItemCount,
+    };
   }
 
   /**
@@ -28,12 +46,95 @@ export class NamespaceService {
    */
   async getNamespace(name: string): Promise<NamespaceResponse> {
     const result = await coreV1Api.readNamespace(name);
+    return this.mapNamespaceToResponse(result.body);
+  }
+
+  /**
+   * Create a namespace
+   */
+  async createNamespace(
+    input: CreateNamespaceInput,
+  ): Promise<NamespaceResponse> {
+    const namespace: k8s.V1Namespace = {
+      apiVersion: "v1",
+      kind: "Namespace",
+      metadata: {
+        name: input.name,
+        labels: input.labels,
+        annotations: input.annotations,
+      },
+    };
+
+    const result = await coreV1Api.createNamespace(namespace);
+    return this.mapNamespaceToResponse(result.body);
+  }
+
+  /**
+   * Add, change or remove (null value) namespace labels and annotations
+   */
+  async updateNamespace(
+    name: string,
+    input: UpdateNamespaceInput,
+  ): Promise<NamespaceResponse> {
+    const patchBody = {
+      metadata: {
+        labels: input.labels,
+        annotations: input.annotations,
+      },
+    };
+
+    const result = await coreV1Api.patchNamespace(
+      name,
+      patchBody,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": "application/merge-patch+json" } },
+    );
 
+    return this.mapNamespaceToResponse(result.body);
+  }
+
+  /**
+   * Delete a namespace. Deletion is asynchronous: the namespace stays in the
+   * Terminating phase until its contents and finalizers are gone.
+   */
+  async deleteNamespace(name: string): Promise<void> {
+    this.assertDeletable(name);
+    await coreV1Api.deleteNamespace(name);
+  }
+
+  /**
+   * Reject deletion of namespaces listed in PROTECTED_NAMESPACES
+   */
+  assertDeletable(name: string): void {
+    const { protectedNamespaces } = getConfig();
+
+    if (protectedNamespaces.includes(name)) {
+      throw new HttpStatusError(
+        403,
+        `Namespace "${name}" is protected and cannot be deleted`,
+      );
+    }
+  }
+
+  /**
+   * Map Kubernetes Namespace object to API response
+   */
+  mapNamespaceToResponse(ns: k8s.V1Namespace): NamespaceResponse {
     return {
-      name: result.body.metadata?.name || "",
-      status: result.body.status?.phase || "Unknown",
-      creationTimestamp: result.body.metadata?.creationTimestamp,
-      labels: result.body.metadata?.labels,
+      name: ns.metadata?.name || "",
+      status: ns.status?.phase || "Unknown",
+      creationTimestamp: ns.metadata?.creationTimestamp,
+      deletionTimestamp: ns.metadata?.deletionTimestamp,
+      labels: ns.metadata?.labels,
+      annotations: ns.metadata?.annotations,
+      finalizers: [
+        ...(ns.spec?.finalizers || []),
+        ...(ns.metadata?.finalizers || []),
+      ],
     };
   }
 }
@@ -0,0 +1,416 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { metricsService } from "./metrics.service.js";
+import type {
+  DrainPodProgress,
+  DrainResult,
+  NodeResources,
+  NodeResponse,
+} from "../types/node.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+import type { DrainNodeInput } from "../validators/node.validator.js";
+
+const ROLE_LABEL_PREFIX = "node-role.kubernetes.io/";
+const MIRROR_POD_ANNOTATION = "kubernetes.io/config.mirror";
+const NON_TERMINATED_PODS = "status.phase!=Succeeded,status.phase!=Failed";
+const DRAIN_POLL_INTERVAL_MS = 2000;
+
+type ReportDrainProgress = (
+  pod: k8s.V1Pod,
+  update: Omit<DrainPodProgress, "namespace" | "name">,
+) => void;
+
+export class NodeService {
+  /**
+   * List one page of nodes with their non-terminated pod counts
+   */
+  async listNodes(
+    options: ListOptions = {},
+  ): Promise<ListResult<NodeResponse>> {
+    const [result, podCounts] = await Promise.all([
+      coreV1Api.listNode(
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      ),
+      this.countPods(),
+    ]);
+
+    return {
+      items: result.body.items.map((node) =>
+        this.mapNodeToResponse(node, podCounts.get(node.metadata?.name || "")),
+      ),
+      continue: result.body.metadata?._continue,
+      remainingItemCount: result.body.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * Get a specific node by name
+   */
+  async getNode(name: string): Promise<NodeResponse> {
+    const [result, podCounts] = await Promise.all([
+      coreV1Api.readNode(name),
+      this.countPods(name),
+    ]);
+    return this.mapNodeToResponse(result.body, podCounts.get(name));
+  }
+
+  /**
+   * Mark a node unschedulable; running pods are left alone
+   */
+  async cordonNode(name: string): Promise<NodeResponse> {
+    await this.setUnschedulable(name, true);
+    return this.getNode(name);
+  }
+
+  /**
+   * Make a node schedulable again
+   */
+  async uncordonNode(name: string): Promise<NodeResponse> {
+    await this.setUnschedulable(name, false);
+    return this.getNode(name);
+  }
+
+  /**
+   * Cordon a node and evict its pods through the Eviction API, so
+   * PodDisruptionBudgets are honoured: evictions refused with 429 are
+   * retried until the timeout. Nothing is cordoned or evicted if a pod
+   * cannot be drained under the given options.
+   */
+  async drainNode(
+    name: string,
+    input: DrainNodeInput,
+    onProgress: (pod: DrainPodProgress) => void = () => {},
+  ): Promise<DrainResult> {
+    const startedAt = Date.now();
+    const deadline = startedAt + input.timeoutSeconds * 1000;
+
+    const result = await coreV1Api.listPodForAllNamespaces(
+      undefined,
+      undefined,
+      `spec.nodeName=${name}`,
+    );
+    const { evictable, skipped, blockers } = this.classifyPods(
+      result.body.items,
+      input,
+    );
+    if (blockers.length > 0) {
+      throw new HttpStatusError(
+        409,
+        `Cannot drain node ${name}: ${blockers.join("; ")}`,
+      );
+    }
+
+    await this.setUnschedulable(name, true);
+
+    const progress = new Map<k8s.V1Pod, DrainPodProgress>();
+    const report: ReportDrainProgress = (pod, update) => {
+      const entry: DrainPodProgress = {
+        namespace: pod.metadata?.namespace || "",
+        name: pod.metadata?.name || "",
+        ...update,
+      };
+      const previous = progress.get(pod);
+      progress.set(pod, entry);
+      if (
+        previous?.status !== entry.status ||
+        previous.message !== entry.message
+      ) {
+        onProgress(entry);
+      }
+    };
+
+    skipped.forEach(({ pod, message }) =>
+      report(pod, { status: "skipped", message }),
+    );
+    evictable.forEach((pod) => report(pod, { status: "pending" }));
+
+    const isDone = (pod: k8s.V1Pod) =>
+      ["deleted", "failed"].includes(progress.get(pod)?.status || "");
+
+    while (true) {
+      for (const pod of evictable) {
+        const status = progress.get(pod)?.status;
+        if (status === "pending" || status === "blocked") {
+          await this.evictPod(pod, input.gracePeriodSeconds, report);
+        }
+        if (progress.get(pod)?.status === "evicted") {
+          await this.checkPodGone(pod, report);
+        }
+      }
+
+      if (evictable.every(isDone) || Date.now() >= deadline) break;
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          Math.min(DRAIN_POLL_INTERVAL_MS, deadline - Date.now()),
+        ),
+      );
+    }
+
+    const remaining = evictable.filter(
+      (pod) => progress.get(pod)?.status !== "deleted",
+    ).length;
+    const failed = evictable.some(
+      (pod) => progress.get(pod)?.status === "failed",
+    );
+
+    return {
+      node: name,
+      outcome: remaining === 0 ? "Drained" : failed ? "Failed" : "Timeout",
+      pods: [...progress.values()],
+      remaining,
+      elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+    };
+  }
+
+  /**
+   * Map Kubernetes Node object to API response
+   */
+  mapNodeToResponse(node: k8s.V1Node, podCount = 0): NodeResponse {
+    const labels = node.metadata?.labels || {};
+    const roles = Object.keys(labels)
+      .filter((key) => key.startsWith(ROLE_LABEL_PREFIX))
+      .map((key) => key.slice(ROLE_LABEL_PREFIX.length))
+      .filter(Boolean)
+      .sort();
+
+    const readyCondition = node.status?.conditions?.find(
+      (c) => c.type === "Ready",
+    );
+    const ready = readyCondition?.status === "True";
+    const unschedulable = node.spec?.unschedulable || false;
+    const readiness = !readyCondition
+      ? "Unknown"
+      : readyCondition.status === "True"
+        ? "Ready"
+        : readyCondition.status === "False"
+          ? "NotReady"
+          : "Unknown";
+
+    const info = node.status?.nodeInfo;
+
+    return {
+      name: node.metadata?.name || "",
+      roles: roles.length ? roles : ["worker"],
+      status: unschedulable ? `${readiness},SchedulingDisabled` : readiness,
+      ready,
+      unschedulable,
+      internalIP: node.status?.addresses?.find(
+        (address) => address.type === "InternalIP",
+      )?.address,
+      kubeletVersion: info?.kubeletVersion,
+      k3sVersion: info?.kubeletVersion.includes("+k3s")
+        ? info.kubeletVersion
+        : undefined,
+      containerRuntimeVersion: info?.containerRuntimeVersion,
+      osImage: info?.osImage,
+      os: info?.operatingSystem,
+      architecture: info?.architecture,
+      kernelVersion: info?.kernelVersion,
+      capacity: this.toResources(node.status?.capacity),
+      allocatable: this.toResources(node.status?.allocatable),
+      conditions: (node.status?.conditions || []).map((condition) => ({
+        type: condition.type,
+        status:
+          condition.status as NodeResponse["conditions"][number]["status"],
+        reason: condition.reason,
+        message: condition.message,
+        lastTransitionTime: condition.lastTransitionTime,
+      })),
+      taints: (node.spec?.taints || []).map((taint) => ({
+        key: taint.key,
+        value: taint.value,
+        effect: taint.effect,
+      })),
+      podCount,
+      labels: node.metadata?.labels,
+      creationTimestamp: node.metadata?.creationTimestamp,
+    };
+  }
+
+  /**
+   * Split a node's pods into those to evict, those left in place, and
+   * reasons the drain cannot proceed (mirroring kubectl drain)
+   */
+  private classifyPods(
+    pods: k8s.V1Pod[],
+    input: DrainNodeInput,
+  ): {
+    evictable: k8s.V1Pod[];
+    skipped: { pod: k8s.V1Pod; message: string }[];
+    blockers: string[];
+  } {
+    const evictable: k8s.V1Pod[] = [];
+    const skipped: { pod: k8s.V1Pod; message: string }[] = [];
+    const blockers: string[] = [];
+
+    for (const pod of pods) {
+      const id = `${pod.metadata?.namespace}/${pod.metadata?.name}`;
+      const controller = pod.metadata?.ownerReferences?.find(
+        (owner) => owner.controller,
+      );
+
+      // Static pods are managed by the kubelet, not the API server
+      if (pod.metadata?.annotations?.[MIRROR_POD_ANNOTATION]) {
+        skipped.push({ pod, message: "Static pod managed by the kubelet" });
+      } else if (controller?.kind === "DaemonSet") {
+        if (input.ignoreDaemonSets) {
+          skipped.push({ pod, message: "DaemonSet pod" });
+        } else {
+          blockers.push(
+            `${id} is managed by a DaemonSet (set ignoreDaemonSets)`,
+          );
+        }
+      } else if (
+        pod.status?.phase === "Succeeded" ||
+        pod.status?.phase === "Failed"
+      ) {
+        // Finished pods lose nothing by being deleted, like in kubectl drain
+        evictable.push(pod);
+      } else if (!controller && !input.force) {
+        blockers.push(
+          `${id} has no controller and would not be recreated (set force)`,
+        );
+      } else if (
+        pod.spec?.volumes?.some((volume) => volume.emptyDir) &&
+        !input.deleteEmptyDirData
+      ) {
+        blockers.push(
+          `${id} uses emptyDir volumes whose data would be lost (set deleteEmptyDirData)`,
+        );
+      } else {
+        evictable.push(pod);
+      }
+    }
+
+    return { evictable, skipped, blockers };
+  }
+
+  private async evictPod(
+    pod: k8s.V1Pod,
+    gracePeriodSeconds: number | undefined,
+    report: ReportDrainProgress,
+  ): Promise<void> {
+    const name = pod.metadata?.name || "";
+    const namespace = pod.metadata?.namespace || "default";
+
+    try {
+      await coreV1Api.createNamespacedPodEviction(name, namespace, {
+        apiVersion: "policy/v1",
+        kind: "Eviction",
+        metadata: { name, namespace },
+        deleteOptions:
+          gracePeriodSeconds !== undefined ? { gracePeriodSeconds } : undefined,
+      });
+      report(pod, { status: "evicted" });
+    } catch (error) {
+      if (error instanceof k8s.HttpError && error.statusCode === 404) {
+        report(pod, { status: "deleted" });
+      } else if (error instanceof k8s.HttpError && error.statusCode === 429) {
+        // A PodDisruptionBudget does not allow the disruption right now
+        report(pod, {
+          status: "blocked",
+          message: error.body?.message || "Blocked by a PodDisruptionBudget",
+        });
+      } else {
+        report(pod, {
+          status: "failed",
+          message:
+            (error instanceof k8s.HttpError && error.body?.message) ||
+            (error instanceof Error ? error.message : "Eviction failed"),
+        });
+      }
+    }
+  }
+
+  /**
+   * Report an evicted pod as deleted once it is gone or replaced by a
+   * namesake (new UID). A failed check is reported on the pod and retried
+   * on the next poll.
+   */
+  private async checkPodGone(
+    pod: k8s.V1Pod,
+    report: ReportDrainProgress,
+  ): Promise<void> {
+    try {
+      const result = await coreV1Api.readNamespacedPod(
+        pod.metadata?.name || "",
+        pod.metadata?.namespace || "default",
+      );
+      report(
+        pod,
+        result.body.metadata?.uid !== pod.metadata?.uid
+          ? { status: "deleted" }
+          : { status: "evicted" },
+      );
+    } catch (error) {
+      if (error instanceof k8s.HttpError && error.statusCode === 404) {
+        report(pod, { status: "deleted" });
+        return;
+      }
+      report(pod, {
+        status: "evicted",
+        message: `Could not check whether the pod is gone: ${
+          (error instanceof k8s.HttpError && error.body?.message) ||
+          (error instanceof Error ? error.message : "unknown error")
+        }`,
+      });
+    }
+  }
+
+  private async setUnschedulable(
+    name: string,
+    unschedulable: boolean,
+  ): Promise<void> {
+    await coreV1Api.patchNode(
+      name,
+      { spec: { unschedulable } },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": "application/merge-patch+json" } },
+    );
+  }
+
+  /**
+   * Count non-terminated pods per node, optionally for a single node
+   */
+  private async countPods(nodeName?: string): Promise<Map<string, number>> {
+    const fieldSelector = nodeName
+      ? `${NON_TERMINATED_PODS},spec.nodeName=${nodeName}`
+      : NON_TERMINATED_PODS;
+    const result = await coreV1Api.listPodForAllNamespaces(
+      undefined,
+      undefined,
+      fieldSelector,
+    );
+
+    const counts = new Map<string, number>();
+    for (const pod of result.body.items) {
+      const node = pod.spec?.nodeName;
+      if (node) counts.set(node, (counts.get(node) || 0) + 1);
+    }
+    return counts;
+  }
+
+  private toResources(quantities: Record<string, string> = {}): NodeResources {
+    return {
+      cpu: quantities.cpu ? metricsService.toMillicores(quantities.cpu) : 0,
+      memory: quantities.memory ? metricsService.toBytes(quantities.memory) : 0,
+      pods: Number(quantities.pods || 0),
+      ephemeralStorage: quantities["ephemeral-storage"]
+        ? metricsService.toBytes(quantities["ephemeral-storage"])
+        : undefined,
+    };
+  }
+}
+
+export const nodeService = new NodeService();
@@ -1,65 +1,196 @@
 import * as k8s from "@kubernetes/client-node";
-import { coreV1Api } from "../config/k8s.config.js";
+import { PassThrough, type Writable } from "stream";
+import type WebSocket from "ws";
+import { coreV1Api, kc } from "../config/k8s.config.js";
+import { cacheService } from "./cache.service.js";
+import { getConfig } from "../config/index.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { waitService } from "./wait.service.js";
 import type {
+  ContainerInput,
+  ContainerSecurityContextInput,
   CreatePodInput,
+  InitContainerInput,
+  NodeAffinityRule,
+  PodAffinityRule,
+  PodSecurityContextInput,
   UpdatePodInput,
+  PodLogsQuery,
+  ExecPodInput,
+  ExecSessionQuery,
 } from "../validators/pod.validator.js";
-import type { PodResponse, ContainerInfo } from "../types/pod.types.js";
+import type {
+  PodResponse,
+  ContainerInfo,
+  ContainerPort,
+  ContainerState,
+  ContainerProbes,
+  PodCondition,
+  Probe,
+  ExecResult,
+  ExecSessionStreams,
+} from "../types/pod.types.js";
+import type { WaitCheck, WaitResult } from "../types/wait.types.js";
+import type { ReadOptions } from "../types/cache.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+type LogStreamRequest = Awaited<ReturnType<k8s.Log["log"]>>;
+
+const DEFAULT_CONTAINER_ANNOTATION = "kubectl.kubernetes.io/default-container";
+
+/**
+ * Executables that run arbitrary commands from their arguments (`sh -c`);
+ * busybox embeds a shell
+ */
+const SHELLS = new Set(["sh", "bash", "ash", "dash", "zsh", "ksh", "busybox"]);
+
+/**
+ * Container states that will not resolve without user intervention
+ */
+const FAILURE_REASONS = new Set([
+  "ImagePullBackOff",
+  "ErrImagePull",
+  "InvalidImageName",
+  "CrashLoopBackOff",
+  "CreateContainerConfigError",
+  "CreateContainerError",
+  "RunContainerError",
+]);
 
 export class PodService {
   /**
-   * List all pods, optionally filtered by namespace
+   * List one page of pods, optionally filtered by namespace.
+   * Served from the informer cache unless options.consistent is set.
    */
-  async listPods(namespace?: string): Promise<PodResponse[]> {
+  async listPods(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<PodResponse>> {
+    const cached = cacheService.pods.list(namespace, options);
+    if (cached) {
+      return {
+        ...cached,
+        items: cached.items.map((pod) => this.mapPodToResponse(pod)),
+      };
+    }
+
     let response: k8s.V1PodList;
 
     if (namespace) {
-      const result = await coreV1Api.listNamespacedPod(namespace);
+      const result = await coreV1Api.listNamespacedPod(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     } else {
-      const result = await coreV1Api.listPodForAllNamespaces();
+      const result = await coreV1Api.listPodForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     }
 
-    return response.items.map((pod) => this.mapPodToResponse(pod));
+    return {
+      items: response.items.map((pod) => this.mapPodToResponse(pod)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
   }
 
   /**
    * Get a specific pod by name and namespace
    */
-  async getPod(namespace: string, name: string): Promise<PodResponse> {
+  async getPod(
+    namespace: string,
+    name: string,
+    options: ReadOptions = {},
+  ): Promise<PodResponse> {
+    const cached = cacheService.pods.get(namespace, name, options.consistent);
+    if (cached) {
+      return this.mapPodToResponse(cached);
+    }
+
     const result = await coreV1Api.readNamespacedPod(name, namespace);
     return this.mapPodToResponse(result.body);
   }
 
   /**
-   * Create a new pod with optional resource limits
+   * Create a new pod from either the single-image shorthand or explicit
+   * containers/initContainers lists
    */
   async createPod(input: CreatePodInput): Promise<PodResponse> {
+    const { volumes, sharedMounts } = this.buildVolumes(input);
+    const labels = input.labels || { app: input.name };
+    const restricted =
+      (input.securityProfile ?? getConfig().podSecurityProfile) ===
+      "restricted";
+    const containers: ContainerInput[] = input.containers ?? [
+      {
+        name: input.name,
+        image: input.image || "",
+        resources: input.resources,
+        env: input.env,
+        envFrom: input.envFrom,
+        volumeMounts: input.volumeMounts,
+        livenessProbe: input.livenessProbe,
+        readinessProbe: input.readinessProbe,
+        startupProbe: input.startupProbe,
+        command: input.command,
+        args: input.args,
+        ports: input.ports,
+        securityContext: input.containerSecurityContext,
+      },
+    ];
+
     const pod: k8s.V1Pod = {
       apiVersion: "v1",
       kind: "Pod",
       metadata: {
         name: input.name,
         namespace: input.namespace,
-        labels: input.labels || { app: input.name },
+        labels,
+        // Logs and exec default to the first app container, not a sidecar
+        annotations:
+          containers.length > 1
+            ? { [DEFAULT_CONTAINER_ANNOTATION]: containers[0].name }
+            : undefined,
       },
       spec: {
-        containers: [
-          {
-            name: input.name,
-            image: input.image,
-            resources: input.resources
-              ? {
-                  requests: input.resources.requests,
-                  limits: input.resources.limits,
-                }
-              : undefined,
-            env: input.env?.map((e) => ({ name: e.name, value: e.value })),
-            command: input.command,
-            args: input.args,
-          },
-        ],
+        securityContext: this.buildPodSecurityContext(
+          input.securityContext,
+          restricted,
+        ),
+        initContainers: input.initContainers?.map((container) =>
+          this.buildContainer(container, [], restricted),
+        ),
+        containers: containers.map((container) =>
+          this.buildContainer(container, sharedMounts, restricted),
+        ),
+        volumes: volumes.length ? volumes : undefined,
+        imagePullSecrets: input.imagePullSecrets?.map((name) => ({ name })),
+        nodeSelector: input.nodeSelector,
+        tolerations: input.tolerations,
+        affinity: this.buildAffinity(input),
+        priorityClassName: input.priorityClassName,
+        topologySpreadConstraints: input.topologySpreadConstraints?.map(
+          (constraint) => ({
+            maxSkew: constraint.maxSkew,
+            topologyKey: constraint.topologyKey,
+            whenUnsatisfiable: constraint.whenUnsatisfiable,
+            minDomains: constraint.minDomains,
+            labelSelector: {
+              matchLabels: constraint.matchLabels || labels,
+            },
+          }),
+        ),
       },
     };
 
@@ -71,6 +202,60 @@ export class PodService {
     return this.mapPodToResponse(result.body);
   }
 
+  /**
+   * Watch a pod until it is Ready, fails, or the timeout elapses
+   */
+  async waitForPod(
+    namespace: string,
+    name: string,
+    timeoutSeconds: number,
+  ): Promise<{ pod?: PodResponse; wait: WaitResult }> {
+    const { object, result } = await waitService.waitFor<k8s.V1Pod>(
+      `/api/v1/namespaces/${namespace}/pods`,
+      name,
+      timeoutSeconds,
+      (pod) => this.getPodWaitCheck(pod),
+    );
+
+    if (object && result.outcome === "Timeout") {
+      result.reason = this.getPodStatusDescription(object);
+      result.message = this.getPodWaitingMessage(object) ?? result.message;
+    }
+
+    return {
+      pod: object ? this.mapPodToResponse(object) : undefined,
+      wait: result,
+    };
+  }
+
+  /**
+   * Classify a pod as ready, completed or failed; undefined while it is
+   * still starting up
+   */
+  getPodWaitCheck(pod: k8s.V1Pod): WaitCheck | undefined {
+    const phase = pod.status?.phase;
+    const reason = this.getPodStatusDescription(pod);
+
+    if (phase === "Succeeded") {
+      return { outcome: "Completed", reason };
+    }
+
+    const ready = pod.status?.conditions?.find((c) => c.type === "Ready");
+    if (ready?.status === "True") {
+      return { outcome: "Ready" };
+    }
+
+    if (phase === "Failed" || FAILURE_REASONS.has(reason)) {
+      return {
+        outcome: "Failed",
+        reason,
+        message: this.getPodWaitingMessage(pod) ?? pod.status?.message,
+      };
+    }
+
+    return undefined;
+  }
+
   /**
    * Update pod labels (pods are largely immutable, only metadata can be updated)
    */
@@ -108,29 +293,435 @@ export class PodService {
   }
 
   /**
-   * Map Kubernetes Pod object to API response
+   * Read container logs in a single response
    */
-  private mapPodToResponse(pod: k8s.V1Pod): PodResponse {
-    const containers: ContainerInfo[] = (pod.spec?.containers || []).map(
-      (container, index) => {
-        const containerStatus = pod.status?.containerStatuses?.[index];
-        return {
-          name: container.name,
-          image: container.image || "",
-          ready: containerStatus?.ready || false,
-          restartCount: containerStatus?.restartCount || 0,
-          resources: container.resources
-            ? {
-                requests: container.resources.requests as
-                  | Record<string, string>
-                  | undefined,
-                limits: container.resources.limits as
-                  | Record<string, string>
-                  | undefined,
-              }
-            : undefined,
-        };
+  async getPodLogs(
+    namespace: string,
+    name: string,
+    options: PodLogsQuery,
+  ): Promise<string> {
+    const result = await coreV1Api.readNamespacedPodLog(
+      name,
+      namespace,
+      options.container,
+      false,
+      undefined,
+      undefined,
+      undefined,
+      options.previous,
+      options.sinceSeconds,
+      options.tailLines,
+      options.timestamps,
+    );
+
+    return result.body;
+  }
+
+  /**
+   * Follow container logs, piping new lines into the given stream.
+   * Resolves once the upstream connection is established; the returned
+   * request must be aborted by the caller when the consumer goes away.
+   */
+  async streamPodLogs(
+    namespace: string,
+    name: string,
+    options: PodLogsQuery,
+    output: Writable,
+  ): Promise<LogStreamRequest> {
+    const container =
+      options.container ?? (await this.getDefaultContainer(namespace, name));
+
+    return new k8s.Log(kc).log(namespace, name, container, output, {
+      follow: true,
+      previous: options.previous,
+      sinceSeconds: options.sinceSeconds,
+      tailLines: options.tailLines,
+      timestamps: options.timestamps,
+    });
+  }
+
+  /**
+   * Run a command to completion inside a container and capture its output
+   */
+  async execCommand(
+    namespace: string,
+    name: string,
+    input: ExecPodInput,
+  ): Promise<ExecResult> {
+    this.assertCommandAllowed(input.command);
+    const container =
+      input.container ?? (await this.getDefaultContainer(namespace, name));
+
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const output = { stdout: "", stderr: "" };
+    stdout.on("data", (chunk: Buffer) => (output.stdout += chunk.toString()));
+    stderr.on("data", (chunk: Buffer) => (output.stderr += chunk.toString()));
+
+    return new Promise<ExecResult>((resolve, reject) => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      new k8s.Exec(kc)
+        .exec(
+          namespace,
+          name,
+          container,
+          input.command,
+          stdout,
+          stderr,
+          null,
+          false,
+          (status) => {
+            settled = true;
+            clearTimeout(timer);
+            resolve({
+              ...output,
+              exitCode: this.getExitCode(status),
+              status: status.status || "Unknown",
+              message: status.message,
+            });
+          },
+        )
+        .then((socket) => {
+          if (settled) return;
+          timer = setTimeout(() => {
+            settled = true;
+            socket.close();
+            reject(
+              new HttpStatusError(
+                504,
+                `Command did not complete within ${input.timeoutSeconds} seconds`,
+              ),
+            );
+          }, input.timeoutSeconds * 1000);
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Open an interactive exec session bridged to the given streams.
+   * The stdout stream also drives terminal resizes when it exposes
+   * columns/rows and emits "resize" events.
+   */
+  async openExecSession(
+    namespace: string,
+    name: string,
+    options: ExecSessionQuery,
+    streams: ExecSessionStreams,
+    onStatus: (
+      result: Pick<ExecResult, "exitCode" | "status" | "message">,
+    ) => void,
+  ): Promise<WebSocket> {
+    this.assertCommandAllowed(options.command, true);
+    const container =
+      options.container ?? (await this.getDefaultContainer(namespace, name));
+
+    return new k8s.Exec(kc).exec(
+      namespace,
+      name,
+      container,
+      options.command,
+      streams.stdout,
+      options.tty ? null : streams.stderr,
+      streams.stdin,
+      options.tty,
+      (status) =>
+        onStatus({
+          exitCode: this.getExitCode(status),
+          status: status.status || "Unknown",
+          message: status.message,
+        }),
+    );
+  }
+
+  /**
+   * Build a Kubernetes container from API input; extraMounts are appended
+   * to the container's own volume mounts
+   */
+  private buildContainer(
+    container: InitContainerInput & Partial<ContainerInput>,
+    extraMounts: k8s.V1VolumeMount[],
+    restricted: boolean,
+  ): k8s.V1Container {
+    const volumeMounts = [...(container.volumeMounts || []), ...extraMounts];
+
+    return {
+      name: container.name,
+      image: container.image,
+      resources: container.resources
+        ? {
+            requests: container.resources.requests,
+            limits: container.resources.limits,
+          }
+        : undefined,
+      env: container.env?.map((e) => ({
+        name: e.name,
+        value: e.value,
+        valueFrom: e.valueFrom,
+      })),
+      envFrom: container.envFrom?.map((source) => ({
+        prefix: source.prefix,
+        configMapRef: source.configMap
+          ? { name: source.configMap, optional: source.optional }
+          : undefined,
+        secretRef: source.secret
+          ? { name: source.secret, optional: source.optional }
+          : undefined,
+      })),
+      ports: container.ports,
+      volumeMounts: volumeMounts.length ? volumeMounts : undefined,
+      livenessProbe: container.livenessProbe,
+      readinessProbe: container.readinessProbe,
+      startupProbe: container.startupProbe,
+      command: container.command,
+      args: container.args,
+      securityContext: this.buildContainerSecurityContext(
+        container.securityContext,
+        restricted,
+      ),
+    };
+  }
+
+  /**
+   * Apply the restricted defaults beneath the requested pod security context
+   */
+  private buildPodSecurityContext(
+    context: PodSecurityContextInput | undefined,
+    restricted: boolean,
+  ): k8s.V1PodSecurityContext | undefined {
+    if (!restricted) return context;
+
+    return {
+      // An explicit root user is a deliberate choice, so don't contradict it
+      runAsNonRoot: context?.runAsUser === 0 ? undefined : true,
+      seccompProfile: { type: "RuntimeDefault" },
+      ...context,
+    };
+  }
+
+  /**
+   * Apply the restricted defaults beneath the requested container security
+   * context; requested capabilities.drop replaces the default ["ALL"]
+   */
+  private buildContainerSecurityContext(
+    context: ContainerSecurityContextInput | undefined,
+    restricted: boolean,
+  ): k8s.V1SecurityContext | undefined {
+    if (!restricted) return context;
+
+    return {
+      allowPrivilegeEscalation: context?.privileged ? undefined : false,
+      // Override the inherited pod-level runAsNonRoot for an explicit root user
+      runAsNonRoot: context?.runAsUser === 0 ? false : undefined,
+      ...context,
+      capabilities: {
+        add: context?.capabilities?.add,
+        drop: context?.capabilities?.drop ?? ["ALL"],
       },
+    };
+  }
+
+  /**
+   * Expand the affinity/antiAffinity shorthands; rules without a weight
+   * become required terms, weighted rules become preferences
+   */
+  private buildAffinity(input: CreatePodInput): k8s.V1Affinity | undefined {
+    const nodeAffinity = this.buildNodeAffinity(input.affinity?.nodes);
+    const podAffinity = this.buildPodAffinity(input.affinity?.pods);
+    const podAntiAffinity = this.buildPodAffinity(input.antiAffinity);
+
+    return nodeAffinity || podAffinity || podAntiAffinity
+      ? { nodeAffinity, podAffinity, podAntiAffinity }
+      : undefined;
+  }
+
+  private buildNodeAffinity(
+    rules: NodeAffinityRule[] = [],
+  ): k8s.V1NodeAffinity | undefined {
+    if (rules.length === 0) return undefined;
+
+    const required: k8s.V1NodeSelectorRequirement[] = [];
+    const preferred: k8s.V1PreferredSchedulingTerm[] = [];
+
+    for (const { weight, ...rule } of rules) {
+      if (weight === undefined) {
+        required.push(rule);
+      } else {
+        preferred.push({ weight, preference: { matchExpressions: [rule] } });
+      }
+    }
+
+    return {
+      // All required rules must hold, so they share one selector term
+      requiredDuringSchedulingIgnoredDuringExecution: required.length
+        ? { nodeSelectorTerms: [{ matchExpressions: required }] }
+        : undefined,
+      preferredDuringSchedulingIgnoredDuringExecution: preferred.length
+        ? preferred
+        : undefined,
+    };
+  }
+
+  private buildPodAffinity(
+    rules: PodAffinityRule[] = [],
+  ): k8s.V1PodAffinity | undefined {
+    if (rules.length === 0) return undefined;
+
+    const required: k8s.V1PodAffinityTerm[] = [];
+    const preferred: k8s.V1WeightedPodAffinityTerm[] = [];
+
+    for (const rule of rules) {
+      const term: k8s.V1PodAffinityTerm = {
+        labelSelector: { matchLabels: rule.matchLabels },
+        topologyKey: rule.topologyKey,
+        namespaces: rule.namespaces,
+      };
+      if (rule.weight === undefined) {
+        required.push(term);
+      } else {
+        preferred.push({ weight: rule.weight, podAffinityTerm: term });
+      }
+    }
+
+    return {
+      requiredDuringSchedulingIgnoredDuringExecution: required.length
+        ? required
+        : undefined,
+      preferredDuringSchedulingIgnoredDuringExecution: preferred.length
+        ? preferred
+        : undefined,
+    };
+  }
+
+  /**
+   * Collect pod volumes from the explicit volumes list and the read-only
+   * ConfigMap/Secret shorthands; shorthand mounts go on every app container
+   */
+  private buildVolumes(input: CreatePodInput): {
+    volumes: k8s.V1Volume[];
+    sharedMounts: k8s.V1VolumeMount[];
+  } {
+    const volumes: k8s.V1Volume[] = [...(input.volumes || [])];
+    const sharedMounts: k8s.V1VolumeMount[] = [];
+
+    input.configMapVolumes?.forEach((source, i) => {
+      volumes.push({
+        name: `configmap-${i}`,
+        configMap: {
+          name: source.name,
+          items: source.items,
+          optional: source.optional,
+        },
+      });
+      sharedMounts.push({
+        name: `configmap-${i}`,
+        mountPath: source.mountPath,
+        readOnly: true,
+      });
+    });
+
+    input.secretVolumes?.forEach((source, i) => {
+      volumes.push({
+        name: `secret-${i}`,
+        secret: {
+          secretName: source.name,
+          items: source.items,
+          optional: source.optional,
+        },
+      });
+      sharedMounts.push({
+        name: `secret-${i}`,
+        mountPath: source.mountPath,
+        readOnly: true,
+      });
+    });
+
+    return { volumes, sharedMounts };
+  }
+
+  /**
+   * Reject commands whose executable is not in EXEC_ALLOWED_COMMANDS.
+   * Arguments are not inspected, so shells are never matched against the
+   * list; an argument-less shell is only allowed for interactive sessions
+   * when EXEC_INTERACTIVE_SHELLS is enabled.
+   */
+  assertCommandAllowed(command: string[], interactive = false): void {
+    const { execAllowedCommands, execInteractiveShells } = getConfig();
+    const executable = command[0];
+
+    if (SHELLS.has(executable.split("/").pop() || "")) {
+      if (!interactive) {
+        throw new HttpStatusError(
+          403,
+          `Shell "${executable}" cannot be used for non-interactive exec; run the command directly`,
+        );
+      }
+      if (!execInteractiveShells) {
+        throw new HttpStatusError(
+          403,
+          "Interactive shells are disabled; set EXEC_INTERACTIVE_SHELLS=true to allow them",
+        );
+      }
+      if (command.length > 1) {
+        throw new HttpStatusError(
+          403,
+          `Interactive shell "${executable}" must be started without arguments`,
+        );
+      }
+      return;
+    }
+
+    if (!execAllowedCommands.includes(executable)) {
+      throw new HttpStatusError(
+        403,
+        `Command "${command[0]}" is not allowed. Allowed commands: ${execAllowedCommands.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Extract the exit code from the status reported on the exec status channel
+   */
+  private getExitCode(status: k8s.V1Status): number | null {
+    if (status.status === "Success") {
+      return 0;
+    }
+
+    const exitCode = status.details?.causes?.find(
+      (cause) => cause.reason === "ExitCode",
+    );
+    return exitCode?.message ? parseInt(exitCode.message, 10) : null;
+  }
+
+  /**
+   * Resolve the container kubectl would pick when none is specified
+   */
+  private async getDefaultContainer(
+    namespace: string,
+    name: string,
+  ): Promise<string> {
+    const result = await coreV1Api.readNamespacedPod(name, namespace);
+    const pod = result.body;
+
+    return (
+      pod.metadata?.annotations?.[DEFAULT_CONTAINER_ANNOTATION] ||
+      pod.spec?.containers[0]?.name ||
+      ""
+    );
+  }
+
+  /**
+   * Map Kubernetes Pod object to API response
+   */
+  mapPodToResponse(pod: k8s.V1Pod): PodResponse {
+    // Statuses are not guaranteed to follow spec order, so join by name
+    const containers = (pod.spec?.containers || []).map((container) =>
+      this.mapContainerInfo(container, pod.status?.containerStatuses),
+    );
+    const initContainers = pod.spec?.initContainers?.map((container) =>
+      this.mapContainerInfo(container, pod.status?.initContainerStatuses),
     );
 
     return {
@@ -140,18 +731,154 @@ export class PodService {
       phase: pod.status?.phase || "Unknown",
       podIP: pod.status?.podIP,
       hostIP: pod.status?.hostIP,
+      nodeName: pod.spec?.nodeName,
       startTime: pod.status?.startTime,
+      conditions: (pod.status?.conditions || []).map((condition) => ({
+        type: condition.type,
+        status: condition.status as PodCondition["status"],
+        reason: condition.reason,
+        message: condition.message,
+        lastTransitionTime: condition.lastTransitionTime,
+      })),
       containers,
+      initContainers,
       labels: pod.metadata?.labels,
     };
   }
 
+  /**
+   * Combine a container's spec with its status of the same name
+   */
+  private mapContainerInfo(
+    container: k8s.V1Container,
+    statuses: k8s.V1ContainerStatus[] = [],
+  ): ContainerInfo {
+    const status = statuses.find((cs) => cs.name === container.name);
+
+    return {
+      name: container.name,
+      image: container.image || "",
+      imageID: status?.imageID || undefined,
+      ready: status?.ready || false,
+      started: status?.started,
+      restartCount: status?.restartCount || 0,
+      state: this.mapContainerState(status?.state),
+      lastState: this.mapContainerState(status?.lastState),
+      ports: container.ports?.map((port) => ({
+        name: port.name,
+        containerPort: port.containerPort,
+        protocol: port.protocol as ContainerPort["protocol"],
+      })),
+      resources: container.resources
+        ? {
+            requests: container.resources.requests as
+              | Record<string, string>
+              | undefined,
+            limits: container.resources.limits as
+              | Record<string, string>
+              | undefined,
+          }
+        : undefined,
+      probes: this.getContainerProbes(container),
+    };
+  }
+
+  /**
+   * Flatten the waiting/running/terminated union; undefined if none is set
+   */
+  private mapContainerState(
+    state?: k8s.V1ContainerState,
+  ): ContainerState | undefined {
+    if (state?.terminated) {
+      return {
+        state: "terminated",
+        reason: state.terminated.reason,
+        message: state.terminated.message,
+        exitCode: state.terminated.exitCode,
+        signal: state.terminated.signal,
+        startedAt: state.terminated.startedAt,
+        finishedAt: state.terminated.finishedAt,
+      };
+    }
+    if (state?.running) {
+      return { state: "running", startedAt: state.running.startedAt };
+    }
+    if (state?.waiting) {
+      return {
+        state: "waiting",
+        reason: state.waiting.reason,
+        message: state.waiting.message,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Summarise a container's probe configuration; undefined if it has none
+   */
+  private getContainerProbes(
+    container: k8s.V1Container,
+  ): ContainerProbes | undefined {
+    const probes: ContainerProbes = {
+      liveness: this.mapProbe(container.livenessProbe),
+      readiness: this.mapProbe(container.readinessProbe),
+      startup: this.mapProbe(container.startupProbe),
+    };
+
+    return probes.liveness || probes.readiness || probes.startup
+      ? probes
+      : undefined;
+  }
+
+  private mapProbe(probe?: k8s.V1Probe): Probe | undefined {
+    if (!probe) return undefined;
+
+    return {
+      httpGet: probe.httpGet && {
+        path: probe.httpGet.path,
+        port: probe.httpGet.port,
+        scheme: probe.httpGet.scheme as "HTTP" | "HTTPS" | undefined,
+        httpHeaders: probe.httpGet.httpHeaders,
+      },
+      tcpSocket: probe.tcpSocket && { port: probe.tcpSocket.port },
+      exec: probe.exec && { command: probe.exec.command || [] },
+      initialDelaySeconds: probe.initialDelaySeconds,
+      periodSeconds: probe.periodSeconds,
+      timeoutSeconds: probe.timeoutSeconds,
+      successThreshold: probe.successThreshold,
+      failureThreshold: probe.failureThreshold,
+    };
+  }
+
+  /**
+   * Explain why a pod is not ready yet from container states or conditions
+   */
+  private getPodWaitingMessage(pod: k8s.V1Pod): string | undefined {
+    for (const cs of pod.status?.containerStatuses || []) {
+      const message =
+        cs.state?.waiting?.message || cs.state?.terminated?.message;
+      if (message) return message;
+    }
+
+    return pod.status?.conditions?.find(
+      (c) => c.status === "False" && c.message,
+    )?.message;
+  }
+
   /**
    * Get human-readable pod status
    */
   private getPodStatusDescription(pod: k8s.V1Pod): string {
     const containerStatuses = pod.status?.containerStatuses || [];
 
+    // e.g. Unschedulable when no node satisfies the selectors or affinity
+    const scheduled = pod.status?.conditions?.find(
+      (c) => c.type === "PodScheduled",
+    );
+    if (scheduled?.status === "False" && scheduled.reason) {
+      return scheduled.reason;
+    }
+
     for (const cs of containerStatuses) {
       if (cs.state?.waiting?.reason) {
         return cs.state.waiting.reason;
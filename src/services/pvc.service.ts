@@ -0,0 +1,114 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import type { CreatePvcInput } from "../validators/pvc.validator.js";
+import type { PvcResponse } from "../types/pvc.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+export class PvcService {
+  /**
+   * List one page of persistent volume claims, optionally filtered by namespace
+   */
+  async listPvcs(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<PvcResponse>> {
+    let response: k8s.V1PersistentVolumeClaimList;
+
+    if (namespace) {
+      const result = await coreV1Api.listNamespacedPersistentVolumeClaim(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    } else {
+      const result = await coreV1Api.listPersistentVolumeClaimForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    }
+
+    return {
+      items: response.items.map((pvc) => this.mapPvcToResponse(pvc)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * Get a specific persistent volume claim by name and namespace
+   */
+  async getPvc(namespace: string, name: string): Promise<PvcResponse> {
+    const result = await coreV1Api.readNamespacedPersistentVolumeClaim(
+      name,
+      namespace,
+    );
+    return this.mapPvcToResponse(result.body);
+  }
+
+  /**
+   * Create a persistent volume claim. With local-path the claim stays
+   * Pending until a pod using it is scheduled (WaitForFirstConsumer).
+   */
+  async createPvc(input: CreatePvcInput): Promise<PvcResponse> {
+    const pvc: k8s.V1PersistentVolumeClaim = {
+      apiVersion: "v1",
+      kind: "PersistentVolumeClaim",
+      metadata: {
+        name: input.name,
+        namespace: input.namespace,
+        labels: input.labels,
+      },
+      spec: {
+        storageClassName: input.storageClassName,
+        accessModes: [input.accessMode],
+        resources: {
+          requests: { storage: input.size },
+        },
+      },
+    };
+
+    const result = await coreV1Api.createNamespacedPersistentVolumeClaim(
+      input.namespace || "default",
+      pvc,
+    );
+
+    return this.mapPvcToResponse(result.body);
+  }
+
+  /**
+   * Delete a persistent volume claim (the data is removed if the storage
+   * class reclaim policy is Delete, as it is for local-path)
+   */
+  async deletePvc(namespace: string, name: string): Promise<void> {
+    await coreV1Api.deleteNamespacedPersistentVolumeClaim(name, namespace);
+  }
+
+  /**
+   * Map Kubernetes PersistentVolumeClaim object to API response
+   */
+  mapPvcToResponse(pvc: k8s.V1PersistentVolumeClaim): PvcResponse {
+    return {
+      name: pvc.metadata?.name || "",
+      namespace: pvc.metadata?.namespace || "",
+      status: pvc.status?.phase || "Unknown",
+      storageClassName: pvc.spec?.storageClassName,
+      accessModes: pvc.spec?.accessModes || [],
+      requested: pvc.spec?.resources?.requests?.storage,
+      capacity: pvc.status?.capacity?.storage,
+      volumeName: pvc.spec?.volumeName,
+      labels: pvc.metadata?.labels,
+      creationTimestamp: pvc.metadata?.creationTimestamp,
+    };
+  }
+}
+
+export const pvcService = new PvcService();
@@ -0,0 +1,257 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import type {
+  LimitRangeResponse,
+  ResourceQuotaResponse,
+  ResourceUsage,
+} from "../types/quota.types.js";
+import type {
+  LimitRangeInput,
+  ResourceQuotaInput,
+} from "../validators/quota.validator.js";
+
+// Each namespace has one quota and one limit range managed by this API
+const RESOURCE_QUOTA_NAME = "default-quota";
+const LIMIT_RANGE_NAME = "default-limits";
+
+export class QuotaService {
+  /**
+   * Get the namespace's resource quota with used vs hard values
+   */
+  async getQuota(namespace: string): Promise<ResourceQuotaResponse> {
+    const result = await coreV1Api.readNamespacedResourceQuota(
+      RESOURCE_QUOTA_NAME,
+      namespace,
+    );
+    return this.mapQuotaToResponse(result.body);
+  }
+
+  /**
+   * Create the namespace's resource quota
+   */
+  async createQuota(
+    namespace: string,
+    input: ResourceQuotaInput,
+  ): Promise<ResourceQuotaResponse> {
+    const quota: k8s.V1ResourceQuota = {
+      apiVersion: "v1",
+      kind: "ResourceQuota",
+      metadata: {
+        name: RESOURCE_QUOTA_NAME,
+        namespace,
+      },
+      spec: {
+        hard: this.buildHard(input),
+      },
+    };
+
+    const result = await coreV1Api.createNamespacedResourceQuota(
+      namespace,
+      quota,
+    );
+    return this.mapQuotaToResponse(result.body);
+  }
+
+  /**
+   * Replace the hard limits of the namespace's resource quota
+   */
+  async updateQuota(
+    namespace: string,
+    input: ResourceQuotaInput,
+  ): Promise<ResourceQuotaResponse> {
+    const existing = await coreV1Api.readNamespacedResourceQuota(
+      RESOURCE_QUOTA_NAME,
+      namespace,
+    );
+
+    const quota: k8s.V1ResourceQuota = {
+      ...existing.body,
+      spec: {
+        ...existing.body.spec,
+        hard: this.buildHard(input),
+      },
+    };
+
+    const result = await coreV1Api.replaceNamespacedResourceQuota(
+      RESOURCE_QUOTA_NAME,
+      namespace,
+      quota,
+    );
+    return this.mapQuotaToResponse(result.body);
+  }
+
+  /**
+   * Delete the namespace's resource quota
+   */
+  async deleteQuota(namespace: string): Promise<void> {
+    await coreV1Api.deleteNamespacedResourceQuota(
+      RESOURCE_QUOTA_NAME,
+      namespace,
+    );
+  }
+
+  /**
+   * Get the namespace's container limit range
+   */
+  async getLimitRange(namespace: string): Promise<LimitRangeResponse> {
+    const result = await coreV1Api.readNamespacedLimitRange(
+      LIMIT_RANGE_NAME,
+      namespace,
+    );
+    return this.mapLimitRangeToResponse(result.body);
+  }
+
+  /**
+   * Create the namespace's container limit range
+   */
+  async createLimitRange(
+    namespace: string,
+    input: LimitRangeInput,
+  ): Promise<LimitRangeResponse> {
+    const limitRange: k8s.V1LimitRange = {
+      apiVersion: "v1",
+      kind: "LimitRange",
+      metadata: {
+        name: LIMIT_RANGE_NAME,
+        namespace,
+      },
+      spec: {
+        limits: [this.buildContainerLimit(input)],
+      },
+    };
+
+    const result = await coreV1Api.createNamespacedLimitRange(
+      namespace,
+      limitRange,
+    );
+    return this.mapLimitRangeToResponse(result.body);
+  }
+
+  /**
+   * Replace the namespace's container limit range
+   */
+  async updateLimitRange(
+    namespace: string,
+    input: LimitRangeInput,
+  ): Promise<LimitRangeResponse> {
+    const existing = await coreV1Api.readNamespacedLimitRange(
+      LIMIT_RANGE_NAME,
+      namespace,
+    );
+
+    // Keep Pod/PVC entries added outside the API, replace the Container one
+    const others = (existing.body.spec?.limits || []).filter(
+      (limit) => limit.type !== "Container",
+    );
+    const limitRange: k8s.V1LimitRange = {
+      ...existing.body,
+      spec: {
+        limits: [...others, this.buildContainerLimit(input)],
+      },
+    };
+
+    const result = await coreV1Api.replaceNamespacedLimitRange(
+      LIMIT_RANGE_NAME,
+      namespace,
+      limitRange,
+    );
+    return this.mapLimitRangeToResponse(result.body);
+  }
+
+  /**
+   * Delete the namespace's container limit range
+   */
+  async deleteLimitRange(namespace: string): Promise<void> {
+    await coreV1Api.deleteNamespacedLimitRange(LIMIT_RANGE_NAME, namespace);
+  }
+
+  /**
+   * Build ResourceQuota hard limits from API input
+   */
+  buildHard(input: ResourceQuotaInput): Record<string, string> {
+    const hard: Record<string, string> = {};
+
+    if (input.requests?.cpu) hard["requests.cpu"] = input.requests.cpu;
+    if (input.requests?.memory) hard["requests.memory"] = input.requests.memory;
+    if (input.limits?.cpu) hard["limits.cpu"] = input.limits.cpu;
+    if (input.limits?.memory) hard["limits.memory"] = input.limits.memory;
+    if (input.pods !== undefined) hard.pods = String(input.pods);
+    if (input.services !== undefined) hard.services = String(input.services);
+
+    return hard;
+  }
+
+  /**
+   * Map Kubernetes ResourceQuota object to API response
+   */
+  mapQuotaToResponse(quota: k8s.V1ResourceQuota): ResourceQuotaResponse {
+    // status.hard lags behind spec until the quota controller syncs, so
+    // a just-replaced quota would still report its old limits
+    const hard = quota.spec?.hard || {};
+    const used = quota.status?.used || {};
+
+    const usage: Record<string, ResourceUsage> = {};
+    for (const [resource, value] of Object.entries(hard)) {
+      usage[resource] = { hard: value, used: used[resource] || "0" };
+    }
+
+    return {
+      name: quota.metadata?.name || "",
+      namespace: quota.metadata?.namespace || "",
+      usage,
+      creationTimestamp: quota.metadata?.creationTimestamp,
+    };
+  }
+
+  /**
+   * Map Kubernetes LimitRange object to API response
+   */
+  mapLimitRangeToResponse(limitRange: k8s.V1LimitRange): LimitRangeResponse {
+    const container = limitRange.spec?.limits.find(
+      (limit) => limit.type === "Container",
+    );
+
+    return {
+      name: limitRange.metadata?.name || "",
+      namespace: limitRange.metadata?.namespace || "",
+      container: {
+        default: container?._default,
+        defaultRequest: container?.defaultRequest,
+        min: container?.min,
+        max: container?.max,
+      },
+      creationTimestamp: limitRange.metadata?.creationTimestamp,
+    };
+  }
+
+  /**
+   * Build the Container entry of a LimitRange from API input
+   */
+  private buildContainerLimit(input: LimitRangeInput): k8s.V1LimitRangeItem {
+    return {
+      type: "Container",
+      _default: this.toResourceList(input.default),
+      defaultRequest: this.toResourceList(input.defaultRequest),
+      min: this.toResourceList(input.min),
+      max: this.toResourceList(input.max),
+    };
+  }
+
+  /**
+   * Drop unset cpu/memory keys so they are not sent as null quantities
+   */
+  private toResourceList(
+    quantities?: Record<string, string | undefined>,
+  ): Record<string, string> | undefined {
+    if (!quantities) return undefined;
+
+    const list = Object.fromEntries(
+      Object.entries(quantities).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined,
+      ),
+    );
+    return Object.keys(list).length > 0 ? list : undefined;
+  }
+}
+
+export const quotaService = new QuotaService();
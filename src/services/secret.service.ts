@@ -0,0 +1,270 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import type {
+  CreateSecretInput,
+  DockerRegistryInput,
+  RegistryCredentialInput,
+  RotateSecretKeyInput,
+} from "../validators/secret.validator.js";
+import type {
+  RegistryCredentialResponse,
+  SecretResponse,
+} from "../types/secret.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
+
+const DEFAULT_SERVICE_ACCOUNT = "default";
+
+const SECRET_TYPES: Record<CreateSecretInput["type"], string> = {
+  Opaque: "Opaque",
+  "docker-registry": "kubernetes.io/dockerconfigjson",
+  tls: "kubernetes.io/tls",
+};
+
+export class SecretService {
+  /**
+   * List one page of secrets, optionally filtered by namespace
+   */
+  async listSecrets(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<SecretResponse>> {
+    let response: k8s.V1SecretList;
+
+    if (namespace) {
+      const result = await coreV1Api.listNamespacedSecret(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    } else {
+      const result = await coreV1Api.listSecretForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
+      response = result.body;
+    }
+
+    return {
+      items: response.items.map((secret) => this.mapSecretToResponse(secret)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
+  }
+
+  /**
+   * Get a specific secret's keys and metadata
+   */
+  async getSecret(namespace: string, name: string): Promise<SecretResponse> {
+    const result = await coreV1Api.readNamespacedSecret(name, namespace);
+    return this.mapSecretToResponse(result.body);
+  }
+
+  /**
+   * Create an Opaque, docker-registry or TLS secret
+   */
+  async createSecret(input: CreateSecretInput): Promise<SecretResponse> {
+    const secret: k8s.V1Secret = {
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: {
+        name: input.name,
+        namespace: input.namespace,
+        labels: input.labels,
+      },
+      type: SECRET_TYPES[input.type],
+      data: this.encodeData(this.buildData(input)),
+    };
+
+    const result = await coreV1Api.createNamespacedSecret(
+      input.namespace || "default",
+      secret,
+    );
+
+    return this.mapSecretToResponse(result.body);
+  }
+
+  /**
+   * Create an image pull secret and optionally make the namespace's default
+   * service account use it, so pods pick it up without imagePullSecrets.
+   * The secret is deleted again if the service account cannot be patched,
+   * so the request can simply be retried.
+   */
+  async createRegistryCredential(
+    input: RegistryCredentialInput,
+  ): Promise<RegistryCredentialResponse> {
+    const secret = await this.createSecret({
+      ...input,
+      type: "docker-registry",
+    });
+
+    if (!input.patchDefaultServiceAccount) {
+      return { secret };
+    }
+
+    try {
+      await this.addImagePullSecret(
+        secret.namespace,
+        DEFAULT_SERVICE_ACCOUNT,
+        secret.name,
+      );
+    } catch (error) {
+      try {
+        await this.deleteSecret(secret.namespace, secret.name);
+      } catch (cleanupError) {
+        console.error("Registry credential cleanup failed:", cleanupError);
+      }
+      throw error;
+    }
+    return { secret, serviceAccount: DEFAULT_SERVICE_ACCOUNT };
+  }
+
+  /**
+   * Replace the value of one existing key, leaving the others untouched
+   */
+  async rotateSecretKey(
+    namespace: string,
+    name: string,
+    input: RotateSecretKeyInput,
+  ): Promise<SecretResponse> {
+    const existing = await coreV1Api.readNamespacedSecret(name, namespace);
+    if (!(input.key in (existing.body.data || {}))) {
+      throw new HttpStatusError(
+        404,
+        `Key "${input.key}" not found in secret ${name}`,
+      );
+    }
+
+    const patchBody = {
+      metadata: { resourceVersion: existing.body.metadata?.resourceVersion },
+      data: this.encodeData({ [input.key]: input.value }),
+    };
+
+    const result = await coreV1Api.patchNamespacedSecret(
+      name,
+      namespace,
+      patchBody,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": "application/merge-patch+json" } },
+    );
+
+    return this.mapSecretToResponse(result.body);
+  }
+
+  /**
+   * Delete a secret
+   */
+  async deleteSecret(namespace: string, name: string): Promise<void> {
+    await coreV1Api.deleteNamespacedSecret(name, namespace);
+  }
+
+  /**
+   * Append an image pull secret to a service account unless already present
+   */
+  async addImagePullSecret(
+    namespace: string,
+    serviceAccount: string,
+    secretName: string,
+  ): Promise<void> {
+    const existing = await coreV1Api.readNamespacedServiceAccount(
+      serviceAccount,
+      namespace,
+    );
+    const current = existing.body.imagePullSecrets || [];
+    if (current.some((ref) => ref.name === secretName)) {
+      return;
+    }
+
+    // Merge patch replaces the list, so send it whole with resourceVersion
+    // to avoid losing a concurrent change
+    const patchBody = {
+      metadata: { resourceVersion: existing.body.metadata?.resourceVersion },
+      imagePullSecrets: [...current, { name: secretName }],
+    };
+
+    await coreV1Api.patchNamespacedServiceAccount(
+      serviceAccount,
+      namespace,
+      patchBody,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": "application/merge-patch+json" } },
+    );
+  }
+
+  /**
+   * Build the .dockerconfigjson document for a registry credential
+   */
+  buildDockerConfigJson(registry: DockerRegistryInput): string {
+    const { server, username, password, email } = registry;
+
+    return JSON.stringify({
+      auths: {
+        [server]: {
+          username,
+          password,
+          email,
+          auth: Buffer.from(`${username}:${password}`).toString("base64"),
+        },
+      },
+    });
+  }
+
+  /**
+   * Map Kubernetes Secret object to API response (keys and sizes only)
+   */
+  mapSecretToResponse(secret: k8s.V1Secret): SecretResponse {
+    return {
+      name: secret.metadata?.name || "",
+      namespace: secret.metadata?.namespace || "",
+      type: secret.type || "Opaque",
+      keys: Object.entries(secret.data || {}).map(([key, value]) => ({
+        key,
+        size: Buffer.from(value, "base64").length,
+      })),
+      labels: secret.metadata?.labels,
+      immutable: secret.immutable,
+      creationTimestamp: secret.metadata?.creationTimestamp,
+    };
+  }
+
+  /**
+   * Plain-text secret data for each supported secret type
+   */
+  private buildData(input: CreateSecretInput): Record<string, string> {
+    switch (input.type) {
+      case "Opaque":
+        return input.data;
+      case "docker-registry":
+        return { ".dockerconfigjson": this.buildDockerConfigJson(input) };
+      case "tls":
+        return { "tls.crt": input.cert, "tls.key": input.key };
+    }
+  }
+
+  private encodeData(data: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        Buffer.from(value).toString("base64"),
+      ]),
+    );
+  }
+}
+
+export const secretService = new SecretService();
@@ -1,38 +1,89 @@
 import * as k8s from "@kubernetes/client-node";
 import { coreV1Api } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { cacheService } from "./cache.service.js";
+import { podService } from "./pod.service.js";
 import type { CreateServiceInput } from "../validators/service.validator.js";
 import type { ServiceResponse, ServicePort } from "../types/service.types.js";
+import type { ReadOptions } from "../types/cache.types.js";
+import type { ListOptions, ListResult } from "../types/list.types.js";
 
 export class ServiceService {
   /**
-   * List all services, optionally filtered by namespace
+   * List one page of services, optionally filtered by namespace.
+   * Served from the informer cache unless options.consistent is set.
    */
-  async listServices(namespace?: string): Promise<ServiceResponse[]> {
+  async listServices(
+    namespace?: string,
+    options: ListOptions = {},
+  ): Promise<ListResult<ServiceResponse>> {
+    const cached = cacheService.services.list(namespace, options);
+    if (cached) {
+      return {
+        ...cached,
+        items: cached.items.map((svc) => this.mapServiceToResponse(svc)),
+      };
+    }
+
     let response: k8s.V1ServiceList;
 
     if (namespace) {
-      const result = await coreV1Api.listNamespacedService(namespace);
+      const result = await coreV1Api.listNamespacedService(
+        namespace,
+        undefined,
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     } else {
-      const result = await coreV1Api.listServiceForAllNamespaces();
+      const result = await coreV1Api.listServiceForAllNamespaces(
+        undefined,
+        options.continue,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+      );
       response = result.body;
     }
 
-    return response.items.map((svc) => this.mapServiceToResponse(svc));
+    return {
+      items: response.items.map((svc) => this.mapServiceToResponse(svc)),
+      continue: response.metadata?._continue,
+      remainingItemCount: response.metadata?.remainingItemCount,
+    };
   }
 
   /**
    * Get a specific service by name and namespace
    */
-  async getService(namespace: string, name: string): Promise<ServiceResponse> {
+  async getService(
+    namespace: string,
+    name: string,
+    options: ReadOptions = {},
+  ): Promise<ServiceResponse> {
+    const cached = cacheService.services.get(
+      namespace,
+      name,
+      options.consistent,
+    );
+    if (cached) {
+      return this.mapServiceToResponse(cached);
+    }
+
     const result = await coreV1Api.readNamespacedService(name, namespace);
     return this.mapServiceToResponse(result.body);
   }
 
   /**
-   * Create a new service
+   * Create a new service. Named targetPorts must be declared by every pod
+   * the selector currently matches.
    */
   async createService(input: CreateServiceInput): Promise<ServiceResponse> {
+    await this.assertNamedTargetPorts(input);
+
     const service: k8s.V1Service = {
       apiVersion: "v1",
       kind: "Service",
@@ -71,14 +122,11 @@ export class ServiceService {
   /**
    * Map Kubernetes Service object to API response
    */
-  private mapServiceToResponse(svc: k8s.V1Service): ServiceResponse {
+  mapServiceToResponse(svc: k8s.V1Service): ServiceResponse {
     const ports: ServicePort[] = (svc.spec?.ports || []).map((p) => ({
       name: p.name,
       port: p.port,
-      targetPort:
-        typeof p.targetPort === "number"
-          ? p.targetPort
-          : parseInt(p.targetPort || "0", 10),
+      targetPort: p.targetPort ?? p.port,
       protocol: p.protocol as "TCP" | "UDP",
     }));
 
@@ -96,6 +144,48 @@ export class ServiceService {
       creationTimestamp: svc.metadata?.creationTimestamp,
     };
   }
+
+  /**
+   * Reject named targetPorts that a selected pod does not declare with the
+   * same protocol. Nothing is checked while the selector matches no pods,
+   * nor without a selector, as such a Service's endpoints are managed by hand.
+   */
+  private async assertNamedTargetPorts(
+    input: CreateServiceInput,
+  ): Promise<void> {
+    const named = input.ports.filter(
+      (port) => typeof port.targetPort === "string",
+    );
+    if (named.length === 0) return;
+    if (!input.selector || Object.keys(input.selector).length === 0) return;
+
+    const labelSelector = Object.entries(input.selector)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(",");
+    const pods = await podService.listPods(input.namespace, { labelSelector });
+
+    for (const port of named) {
+      const missing = pods.items.filter(
+        (pod) =>
+          !pod.containers.some((container) =>
+            container.ports?.some(
+              (declared) =>
+                declared.name === port.targetPort &&
+                (declared.protocol || "TCP") === port.protocol,
+            ),
+          ),
+      );
+
+      if (missing.length > 0) {
+        throw new HttpStatusError(
+          400,
+          `targetPort "${port.targetPort}" (${port.protocol}) is not declared by pod(s) ${missing
+            .map((pod) => pod.name)
+            .join(", ")}`,
+        );
+      }
+    }
+  }
 }
 
 export const serviceService = new ServiceService();
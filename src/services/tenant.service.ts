@@ -0,0 +1,169 @@
+import * as k8s from "@kubernetes/client-node";
+import { coreV1Api, networkingV1Api } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import { namespaceService } from "./namespace.service.js";
+import { quotaService } from "./quota.service.js";
+import { podService } from "./pod.service.js";
+import { serviceService } from "./service.service.js";
+import { ingressService } from "./ingress.service.js";
+import type { TenantResponse, TenantUsage } from "../types/tenant.types.js";
+import type { ResourceQuotaResponse } from "../types/quota.types.js";
+import type { CreateTenantInput } from "../validators/tenant.validator.js";
+
+// Marks namespaces provisioned through POST /api/tenants
+const TENANT_LABEL = "k3s-backend-api/tenant";
+const DEFAULT_DENY_POLICY_NAME = "default-deny";
+
+export class TenantService {
+  /**
+   * Provision a tenant namespace with its quota, limit range, default-deny
+   * network policy and service account. If any step fails, the objects
+   * created so far are deleted in reverse order and the error is rethrown.
+   */
+  async createTenant(input: CreateTenantInput): Promise<TenantResponse> {
+    const { name } = input;
+    const rollback: Array<() => Promise<unknown>> = [];
+
+    try {
+      const namespace = await namespaceService.createNamespace({
+        name,
+        labels: { ...input.labels, [TENANT_LABEL]: name },
+        annotations: input.annotations,
+      });
+      rollback.push(() => coreV1Api.deleteNamespace(name));
+
+      const tenant: TenantResponse = {
+        name,
+        namespace,
+        serviceAccount: input.serviceAccount,
+      };
+
+      if (input.quota) {
+        tenant.quota = await quotaService.createQuota(name, input.quota);
+        rollback.push(() => quotaService.deleteQuota(name));
+      }
+
+      if (input.limits) {
+        tenant.limits = await quotaService.createLimitRange(name, input.limits);
+        rollback.push(() => quotaService.deleteLimitRange(name));
+      }
+
+      if (input.defaultDeny !== "none") {
+        await networkingV1Api.createNamespacedNetworkPolicy(
+          name,
+          this.buildDefaultDenyPolicy(input.defaultDeny),
+        );
+        tenant.networkPolicy = DEFAULT_DENY_POLICY_NAME;
+        rollback.push(() =>
+          networkingV1Api.deleteNamespacedNetworkPolicy(
+            DEFAULT_DENY_POLICY_NAME,
+            name,
+          ),
+        );
+      }
+
+      await coreV1Api.createNamespacedServiceAccount(name, {
+        metadata: { name: input.serviceAccount, namespace: name },
+      });
+
+      return tenant;
+    } catch (error) {
+      await this.rollback(rollback);
+      throw error;
+    }
+  }
+
+  /**
+   * Summarise a tenant's quota and its pods, services and ingresses
+   */
+  async getTenant(name: string): Promise<TenantUsage> {
+    const namespace = await namespaceService.getNamespace(name);
+    if (namespace.labels?.[TENANT_LABEL] !== name) {
+      throw new HttpStatusError(404, `Namespace "${name}" is not a tenant`);
+    }
+
+    const [quota, pods, services, ingresses] = await Promise.all([
+      this.getQuotaIfExists(name),
+      podService.listPods(name),
+      serviceService.listServices(name),
+      ingressService.listIngresses(name),
+    ]);
+
+    return {
+      name,
+      namespace,
+      quota,
+      pods: {
+        total: pods.items.length,
+        byPhase: this.countBy(pods.items.map((pod) => pod.phase)),
+        restarts: pods.items
+          .flatMap((pod) => pod.containers)
+          .reduce((sum, container) => sum + container.restartCount, 0),
+      },
+      services: {
+        total: services.items.length,
+        byType: this.countBy(services.items.map((service) => service.type)),
+      },
+      ingresses: {
+        total: ingresses.items.length,
+        hosts: [
+          ...new Set(ingresses.items.flatMap((ingress) => ingress.hosts)),
+        ],
+      },
+    };
+  }
+
+  /**
+   * Build a NetworkPolicy that selects every pod and allows no traffic
+   */
+  buildDefaultDenyPolicy(
+    mode: "ingress" | "ingress-egress",
+  ): k8s.V1NetworkPolicy {
+    return {
+      apiVersion: "networking.k8s.io/v1",
+      kind: "NetworkPolicy",
+      metadata: { name: DEFAULT_DENY_POLICY_NAME },
+      spec: {
+        podSelector: {},
+        policyTypes: mode === "ingress" ? ["Ingress"] : ["Ingress", "Egress"],
+      },
+    };
+  }
+
+  /**
+   * Undo provisioning steps in reverse order. Failures are logged rather
+   * than thrown so the original error reaches the client.
+   */
+  private async rollback(steps: Array<() => Promise<unknown>>): Promise<void> {
+    for (const undo of steps.reverse()) {
+      try {
+        await undo();
+      } catch (error) {
+        console.error("Tenant rollback step failed:", error);
+      }
+    }
+  }
+
+  private async getQuotaIfExists(
+    namespace: string,
+  ): Promise<ResourceQuotaResponse | undefined> {
+    try {
+      return await quotaService.getQuota(namespace);
+    } catch (error) {
+      if (error instanceof k8s.HttpError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private countBy(values: string[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const value of values) {
+      counts[value] = (counts[value] || 0) + 1;
+    }
+    return counts;
+  }
+}
+
+export const tenantService = new TenantService();
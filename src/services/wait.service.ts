@@ -0,0 +1,129 @@
+import * as k8s from "@kubernetes/client-node";
+import { kc } from "../config/k8s.config.js";
+import { HttpStatusError } from "../middleware/error.middleware.js";
+import type { WaitCheck, WaitResult } from "../types/wait.types.js";
+
+export class WaitService {
+  /**
+   * Watch a single object until `evaluate` reports a terminal state, the
+   * object is deleted, or the timeout elapses. Resolves with the last
+   * observed version of the object alongside the outcome.
+   */
+  async waitFor<T extends k8s.KubernetesObject>(
+    path: string,
+    name: string,
+    timeoutSeconds: number,
+    evaluate: (obj: T) => WaitCheck | undefined,
+  ): Promise<{ object?: T; result: WaitResult }> {
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+      let object: T | undefined;
+      let request: { abort(): void } | undefined;
+      let settled = false;
+
+      const finish = (check?: WaitCheck): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        request?.abort();
+
+        resolve({
+          object,
+          result: {
+            outcome: check?.outcome ?? "Timeout",
+            reason: check?.reason,
+            message:
+              check?.message ??
+              (check ? undefined : `Not ready after ${timeoutSeconds} seconds`),
+            elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+          },
+        });
+      };
+
+      const fail = (error: unknown): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        request?.abort();
+        reject(error);
+      };
+
+      const timer = setTimeout(() => finish(), timeoutSeconds * 1000);
+
+      // Bumped on restart so callbacks of a replaced watch are ignored
+      let generation = 0;
+
+      const start = (): void => {
+        const current = ++generation;
+        const remainingSeconds = Math.max(
+          1,
+          Math.ceil(timeoutSeconds - (Date.now() - startedAt) / 1000),
+        );
+
+        new k8s.Watch(kc)
+          .watch(
+            path,
+            {
+              fieldSelector: `metadata.name=${name}`,
+              timeoutSeconds: remainingSeconds,
+            },
+            (type: string, obj: T & { code?: number; message?: string }) => {
+              if (current !== generation) return;
+
+              if (type === "ERROR") {
+                // 410 Gone: the watch window expired; a new watch starts
+                // from the current state of the object
+                if (obj.code === 410) {
+                  request?.abort();
+                  start();
+                  return;
+                }
+                fail(
+                  new HttpStatusError(
+                    obj.code || 502,
+                    `Watch for ${name} failed: ${obj.message || "unknown error"}`,
+                  ),
+                );
+                return;
+              }
+
+              if (type === "DELETED") {
+                finish({
+                  outcome: "Failed",
+                  reason: "Deleted",
+                  message: `${name} was deleted while waiting for it to become ready`,
+                });
+                return;
+              }
+
+              object = obj;
+              const check = evaluate(obj);
+              if (check) finish(check);
+            },
+            // Server-side close without error is treated as a timeout
+            (error: unknown) => {
+              if (current !== generation) return;
+              if (error) fail(error);
+              else finish();
+            },
+          )
+          .then((req: { abort(): void }) => {
+            if (current !== generation) {
+              req.abort();
+              return;
+            }
+            request = req;
+            if (settled) req.abort();
+          })
+          .catch((error: unknown) => {
+            if (current === generation) fail(error);
+          });
+      };
+
+      start();
+    });
+  }
+}
+
+export const waitService = new WaitService();
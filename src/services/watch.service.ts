@@ -0,0 +1,156 @@
+import * as k8s from "@kubernetes/client-node";
+import { kc } from "../config/k8s.config.js";
+import { podService } from "./pod.service.js";
+import { serviceService } from "./service.service.js";
+import { ingressService } from "./ingress.service.js";
+import { namespaceService } from "./namespace.service.js";
+import type { WatchQuery } from "../validators/watch.validator.js";
+import type {
+  ResourceWatchEvent,
+  WatchEventType,
+  WatchResource,
+} from "../types/watch.types.js";
+
+interface WatchTarget<T extends k8s.KubernetesObject> {
+  path: (namespace?: string) => string;
+  map: (obj: T) => ResourceWatchEvent["object"];
+}
+
+interface WatchObjects {
+  pods: k8s.V1Pod;
+  services: k8s.V1Service;
+  ingresses: k8s.V1Ingress;
+  namespaces: k8s.V1Namespace;
+}
+
+const WATCH_TARGETS: {
+  [R in WatchResource]: WatchTarget<WatchObjects[R]>;
+} = {
+  pods: {
+    path: (ns) => (ns ? `/api/v1/namespaces/${ns}/pods` : "/api/v1/pods"),
+    map: (obj: k8s.V1Pod) => podService.mapPodToResponse(obj),
+  },
+  services: {
+    path: (ns) =>
+      ns ? `/api/v1/namespaces/${ns}/services` : "/api/v1/services",
+    map: (obj: k8s.V1Service) => serviceService.mapServiceToResponse(obj),
+  },
+  ingresses: {
+    path: (ns) =>
+      ns
+        ? `/apis/networking.k8s.io/v1/namespaces/${ns}/ingresses`
+        : "/apis/networking.k8s.io/v1/ingresses",
+    map: (obj: k8s.V1Ingress) => ingressService.mapIngressToResponse(obj),
+  },
+  namespaces: {
+    path: () => "/api/v1/namespaces",
+    map: (obj: k8s.V1Namespace) => namespaceService.mapNamespaceToResponse(obj),
+  },
+};
+
+export class WatchService {
+  /**
+   * Watch a resource type and emit events mapped to API response shapes.
+   * When the API server closes the watch normally it is re-established
+   * from the last seen resourceVersion. If that resourceVersion has expired
+   * (410 Gone), a RESET event is emitted and the watch restarts from the
+   * current state, replaying every object as ADDED. Other ERROR events end
+   * the watch, as does a transport error reported through `onDone`.
+   * Returns a function that stops the watch.
+   */
+  async watchResource<R extends WatchResource>(
+    resource: R,
+    options: WatchQuery,
+    onEvent: (event: ResourceWatchEvent) => void,
+    onDone: (error: unknown) => void,
+  ): Promise<() => void> {
+    const target: WatchTarget<WatchObjects[R]> = WATCH_TARGETS[resource];
+    const watch = new k8s.Watch(kc);
+    let resourceVersion = options.resourceVersion;
+    let request: { abort(): void } | undefined;
+    let stopped = false;
+
+    // Bumped on restart so callbacks of a replaced watch are ignored
+    let generation = 0;
+
+    const stop = (): void => {
+      stopped = true;
+      request?.abort();
+    };
+
+    const start = async (): Promise<void> => {
+      const current = ++generation;
+
+      const relist = (error?: string): void => {
+        generation++;
+        request?.abort();
+        resourceVersion = undefined;
+        onEvent({ type: "RESET", error, code: 410 });
+        start().catch(onDone);
+      };
+
+      const req = await watch.watch(
+        target.path(options.namespace),
+        {
+          allowWatchBookmarks: true,
+          ...(options.labelSelector && {
+            labelSelector: options.labelSelector,
+          }),
+          ...(resourceVersion && { resourceVersion }),
+        },
+        (
+          type: string,
+          obj: WatchObjects[R] & { code?: number; message?: string },
+        ) => {
+          if (stopped || current !== generation) return;
+
+          if (type === "ERROR") {
+            // Without a resourceVersion the watch cannot expire, so this
+            // does not loop
+            if (obj.code === 410 && resourceVersion) {
+              relist(obj.message);
+              return;
+            }
+            stop();
+            onEvent({ type: "ERROR", error: obj.message, code: obj.code });
+            return;
+          }
+
+          resourceVersion = obj.metadata?.resourceVersion ?? resourceVersion;
+          onEvent({
+            type: type as WatchEventType,
+            resourceVersion,
+            object: type === "BOOKMARK" ? undefined : target.map(obj),
+          });
+        },
+        (error: unknown) => {
+          if (stopped || current !== generation) return;
+          if (
+            (error as { statusCode?: number })?.statusCode === 410 &&
+            resourceVersion
+          ) {
+            relist((error as Error).message);
+            return;
+          }
+          if (error) {
+            onDone(error);
+            return;
+          }
+          start().catch(onDone);
+        },
+      );
+
+      if (current !== generation || stopped) {
+        req.abort();
+        return;
+      }
+      request = req;
+    };
+
+    await start();
+
+    return stop;
+  }
+}
+
+export const watchService = new WatchService();
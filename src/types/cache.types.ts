@@ -0,0 +1,24 @@
+/**
+ * Per-request read options for list and get endpoints
+ */
+export interface ReadOptions {
+  /** Read straight from the API server instead of the informer cache */
+  consistent?: boolean;
+}
+
+export interface CacheMetrics {
+  /** Reads served from the informer cache */
+  hits: number;
+  /**
+   * Reads that fell back to the API server (cache not synced, object not
+   * cached yet, or a fieldSelector was given)
+   */
+  misses: number;
+  /** Reads that skipped the cache because ?consistent=true was requested */
+  bypasses: number;
+}
+
+export interface CacheStatus extends CacheMetrics {
+  synced: boolean;
+  objects: number;
+}
@@ -0,0 +1,26 @@
+export interface CreateConfigMapRequest {
+  name: string;
+  namespace?: string;
+  data?: Record<string, string>;
+  /** Base64-encoded values */
+  binaryData?: Record<string, string>;
+  labels?: Record<string, string>;
+  immutable?: boolean;
+}
+
+export interface UpdateConfigMapRequest {
+  data?: Record<string, string>;
+  binaryData?: Record<string, string>;
+  labels?: Record<string, string>;
+}
+
+export interface ConfigMapResponse {
+  name: string;
+  namespace: string;
+  data: Record<string, string>;
+  /** Base64-encoded values */
+  binaryData?: Record<string, string>;
+  labels?: Record<string, string>;
+  immutable?: boolean;
+  creationTimestamp?: Date;
+}
@@ -0,0 +1,89 @@
+import type { EnvVar, ResourceRequirements } from "./pod.types.js";
+
+export interface PodTemplateRequest {
+  labels?: Record<string, string>;
+  image: string;
+  resources?: ResourceRequirements;
+  env?: EnvVar[];
+  command?: string[];
+  args?: string[];
+}
+
+export interface CreateDeploymentRequest {
+  name: string;
+  namespace?: string;
+  replicas?: number;
+  selector?: Record<string, string>;
+  labels?: Record<string, string>;
+  template: PodTemplateRequest;
+}
+
+export interface UpdateDeploymentImageRequest {
+  container?: string;
+  image: string;
+}
+
+export interface ScaleDeploymentRequest {
+  replicas: number;
+}
+
+export interface RollbackDeploymentRequest {
+  /** Revision to roll back to; defaults to the previous revision */
+  revision?: number;
+}
+
+export interface DeploymentCondition {
+  type: string;
+  status: string;
+  reason?: string;
+  message?: string;
+  lastUpdateTime?: Date;
+}
+
+export interface DeploymentContainer {
+  name: string;
+  image: string;
+  resources?: ResourceRequirements;
+}
+
+/**
+ * Rollout progress derived the same way as `kubectl rollout status`
+ */
+export interface DeploymentRolloutStatus {
+  state: "Complete" | "Progressing" | "Failed";
+  message: string;
+  /** Current revision from the deployment.kubernetes.io/revision annotation */
+  revision?: number;
+}
+
+/**
+ * A ReplicaSet revision of a deployment
+ */
+export interface DeploymentRevision {
+  revision: number;
+  replicaSet: string;
+  images: string[];
+  replicas: number;
+  readyReplicas: number;
+  changeCause?: string;
+  /** Whether this revision is the deployment's current pod template */
+  current: boolean;
+  creationTimestamp?: Date;
+}
+
+export interface DeploymentResponse {
+  name: string;
+  namespace: string;
+  /** Desired replica count from the spec */
+  replicas: number;
+  readyReplicas: number;
+  updatedReplicas: number;
+  availableReplicas: number;
+  unavailableReplicas: number;
+  selector?: Record<string, string>;
+  containers: DeploymentContainer[];
+  conditions: DeploymentCondition[];
+  rollout: DeploymentRolloutStatus;
+  labels?: Record<string, string>;
+  creationTimestamp?: Date;
+}
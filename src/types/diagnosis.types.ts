@@ -0,0 +1,30 @@
+import type { EventResponse } from "./event.types.js";
+import type { ContainerInfo, PodCondition } from "./pod.types.js";
+
+export interface DiagnosisFinding {
+  /** Where the finding comes from */
+  source: "pod" | "scheduling" | "initContainer" | "container" | "event";
+  /** Container name for container findings */
+  container?: string;
+  reason?: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+export interface PodDiagnosis {
+  name: string;
+  namespace: string;
+  phase: string;
+  status: string;
+  /** Running with every container ready, or Succeeded */
+  healthy: boolean;
+  /** One-line explanation, taken from the most important finding */
+  summary: string;
+  /** Ordered from the most to the least fundamental problem */
+  findings: DiagnosisFinding[];
+  conditions: PodCondition[];
+  containers: ContainerInfo[];
+  initContainers?: ContainerInfo[];
+  /** The pod's events, oldest first */
+  events: EventResponse[];
+}
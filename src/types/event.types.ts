@@ -0,0 +1,30 @@
+export interface InvolvedObject {
+  kind: string;
+  name: string;
+  namespace?: string;
+  uid?: string;
+}
+
+export interface EventResponse {
+  name: string;
+  namespace: string;
+  type: "Normal" | "Warning";
+  reason?: string;
+  message?: string;
+  involvedObject: InvolvedObject;
+  /** How many times the event was seen, 1 if the API did not aggregate it */
+  count: number;
+  firstTimestamp?: Date;
+  /** Most recent occurrence */
+  lastTimestamp?: Date;
+  /** Component that reported the event, e.g. default-scheduler or kubelet */
+  source?: string;
+}
+
+/** Filters translated to involvedObject/type field selectors */
+export interface EventFilter {
+  kind?: string;
+  name?: string;
+  uid?: string;
+  type?: "Normal" | "Warning";
+}
@@ -0,0 +1,26 @@
+import type { ReadOptions } from "./cache.types.js";
+
+/**
+ * Options accepted by paginated list endpoints
+ */
+export interface ListOptions extends ReadOptions {
+  /** Page size, already clamped to MAX_PAGE_SIZE */
+  limit?: number;
+  /** Continue token returned by the previous page */
+  continue?: string;
+  /** Validated label selector, e.g. "app=web,tier in (frontend,backend)" */
+  labelSelector?: string;
+  /** Validated field selector, e.g. "status.phase=Running" */
+  fieldSelector?: string;
+}
+
+/**
+ * One page of a list response
+ */
+export interface ListResult<T> {
+  items: T[];
+  /** Token for the next page; absent on the last page */
+  continue?: string;
+  /** Number of items after this page, when known */
+  remainingItemCount?: number;
+}
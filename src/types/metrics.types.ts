@@ -0,0 +1,32 @@
+/**
+ * Usage of one resource against its request and limit. CPU values are in
+ * millicores, memory values in bytes; percentages are rounded to 0.1.
+ */
+export interface ResourceMetric {
+  usage: number;
+  request?: number;
+  limit?: number;
+  /** Unset when no request is configured */
+  percentOfRequest?: number;
+  /** Unset when no limit is configured */
+  percentOfLimit?: number;
+}
+
+export interface ContainerMetrics {
+  name: string;
+  cpu: ResourceMetric;
+  memory: ResourceMetric;
+}
+
+export interface PodMetricsResponse {
+  name: string;
+  namespace: string;
+  /** When metrics-server sampled the usage */
+  timestamp: string;
+  /** Sampling window, e.g. "15s" */
+  window: string;
+  containers: ContainerMetrics[];
+  /** Sum over containers; request/limit only when every container sets them */
+  cpu: ResourceMetric;
+  memory: ResourceMetric;
+}
@@ -0,0 +1,81 @@
+/**
+ * Node resources with CPU in millicores and memory/storage in bytes
+ */
+export interface NodeResources {
+  cpu: number;
+  memory: number;
+  pods: number;
+  ephemeralStorage?: number;
+}
+
+export interface NodeCondition {
+  type: string;
+  status: "True" | "False" | "Unknown";
+  reason?: string;
+  message?: string;
+  lastTransitionTime?: Date;
+}
+
+export interface NodeTaint {
+  key: string;
+  value?: string;
+  effect: string;
+}
+
+export interface NodeResponse {
+  name: string;
+  /** From node-role.kubernetes.io/* labels; "worker" when there are none */
+  roles: string[];
+  /** Ready, NotReady or Unknown, plus ",SchedulingDisabled" when cordoned */
+  status: string;
+  ready: boolean;
+  unschedulable: boolean;
+  internalIP?: string;
+  kubeletVersion?: string;
+  /** Same as kubeletVersion on k3s nodes, e.g. v1.30.4+k3s1 */
+  k3sVersion?: string;
+  containerRuntimeVersion?: string;
+  osImage?: string;
+  os?: string;
+  architecture?: string;
+  kernelVersion?: string;
+  capacity: NodeResources;
+  /** Capacity minus what is reserved for the system and kubelet */
+  allocatable: NodeResources;
+  conditions: NodeCondition[];
+  taints: NodeTaint[];
+  /** Pods bound to the node that have not terminated */
+  podCount: number;
+  labels?: Record<string, string>;
+  creationTimestamp?: Date;
+}
+
+/**
+ * pending: not evicted yet; blocked: a PodDisruptionBudget refused the
+ * eviction, retried until the timeout; evicted: accepted, waiting for the
+ * pod to go away; deleted: gone; skipped: left on the node; failed: the
+ * eviction was rejected for another reason
+ */
+export type DrainPodStatus =
+  | "pending"
+  | "blocked"
+  | "evicted"
+  | "deleted"
+  | "skipped"
+  | "failed";
+
+export interface DrainPodProgress {
+  namespace: string;
+  name: string;
+  status: DrainPodStatus;
+  message?: string;
+}
+
+export interface DrainResult {
+  node: string;
+  outcome: "Drained" | "Timeout" | "Failed";
+  pods: DrainPodProgress[];
+  /** Evictable pods still on the node */
+  remaining: number;
+  elapsedSeconds: number;
+}
@@ -1,3 +1,5 @@
+import type { Readable, Writable } from "stream";
+
 export interface ResourceQuantity {
   cpu?: string;
   memory?: string;
@@ -10,24 +12,256 @@ export interface ResourceRequirements {
 
 export interface EnvVar {
   name: string;
-  value: string;
+  /** Literal value; mutually exclusive with valueFrom */
+  value?: string;
+  valueFrom?: {
+    secretKeyRef: { name: string; key: string; optional?: boolean };
+  };
+}
+
+/** Exactly one of configMap or secret is set */
+export interface EnvFromSource {
+  configMap?: string;
+  secret?: string;
+  prefix?: string;
+  optional?: boolean;
+}
+
+export interface ConfigMapVolume {
+  /** ConfigMap to mount */
+  name: string;
+  mountPath: string;
+  items?: { key: string; path: string }[];
+  optional?: boolean;
+}
+
+export interface SecretVolume {
+  /** Secret to mount */
+  name: string;
+  mountPath: string;
+  items?: { key: string; path: string }[];
+  optional?: boolean;
+}
+
+/** Exactly one source is set */
+export interface Volume {
+  name: string;
+  persistentVolumeClaim?: { claimName: string; readOnly?: boolean };
+  emptyDir?: { medium?: "" | "Memory"; sizeLimit?: string };
+  configMap?: {
+    name: string;
+    items?: { key: string; path: string }[];
+    optional?: boolean;
+  };
+  secret?: {
+    secretName: string;
+    items?: { key: string; path: string }[];
+    optional?: boolean;
+  };
+}
+
+export interface VolumeMount {
+  /** Name of an entry in volumes */
+  name: string;
+  mountPath: string;
+  subPath?: string;
+  readOnly?: boolean;
+}
+
+/** Exactly one of httpGet, tcpSocket or exec is set */
+export interface Probe {
+  httpGet?: {
+    path?: string;
+    /** Port number or container port name */
+    port: number | string;
+    scheme?: "HTTP" | "HTTPS";
+    httpHeaders?: { name: string; value: string }[];
+  };
+  tcpSocket?: { port: number | string };
+  exec?: { command: string[] };
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  successThreshold?: number;
+  failureThreshold?: number;
+}
+
+export interface ContainerProbes {
+  liveness?: Probe;
+  readiness?: Probe;
+  startup?: Probe;
+}
+
+export interface ContainerPort {
+  name?: string;
+  containerPort: number;
+  protocol?: "TCP" | "UDP" | "SCTP";
+}
+
+export interface SeccompProfile {
+  type: "RuntimeDefault" | "Localhost" | "Unconfined";
+  /** Required when type is Localhost */
+  localhostProfile?: string;
+}
+
+export interface PodSecurityContext {
+  runAsUser?: number;
+  runAsGroup?: number;
+  runAsNonRoot?: boolean;
+  seccompProfile?: SeccompProfile;
+  fsGroup?: number;
+  supplementalGroups?: number[];
+}
+
+export interface ContainerSecurityContext {
+  runAsUser?: number;
+  runAsGroup?: number;
+  runAsNonRoot?: boolean;
+  seccompProfile?: SeccompProfile;
+  readOnlyRootFilesystem?: boolean;
+  allowPrivilegeEscalation?: boolean;
+  privileged?: boolean;
+  capabilities?: { add?: string[]; drop?: string[] };
+}
+
+/**
+ * "restricted" sets runAsNonRoot, the RuntimeDefault seccomp profile, no
+ * privilege escalation and drops all capabilities unless overridden
+ */
+export type SecurityProfile = "restricted" | "none";
+
+export interface InitContainerSpec {
+  name: string;
+  image: string;
+  resources?: ResourceRequirements;
+  env?: EnvVar[];
+  envFrom?: EnvFromSource[];
+  ports?: ContainerPort[];
+  volumeMounts?: VolumeMount[];
+  command?: string[];
+  args?: string[];
+  securityContext?: ContainerSecurityContext;
+}
+
+export interface ContainerSpec extends InitContainerSpec {
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  startupProbe?: Probe;
+}
+
+export interface Toleration {
+  key?: string;
+  operator?: "Equal" | "Exists";
+  value?: string;
+  effect?: "NoSchedule" | "PreferNoSchedule" | "NoExecute";
+  tolerationSeconds?: number;
+}
+
+/** Required unless weight is set, in which case it is a preference */
+export interface NodeAffinityRule {
+  key: string;
+  operator: "In" | "NotIn" | "Exists" | "DoesNotExist" | "Gt" | "Lt";
+  values?: string[];
+  weight?: number;
+}
+
+/** Required unless weight is set, in which case it is a preference */
+export interface PodAffinityRule {
+  matchLabels: Record<string, string>;
+  /** Defaults to kubernetes.io/hostname */
+  topologyKey?: string;
+  namespaces?: string[];
+  weight?: number;
+}
+
+export interface TopologySpreadConstraint {
+  maxSkew?: number;
+  topologyKey: string;
+  whenUnsatisfiable?: "DoNotSchedule" | "ScheduleAnyway";
+  /** Defaults to the pod's own labels */
+  matchLabels?: Record<string, string>;
+  minDomains?: number;
 }
 
+/**
+ * Either the single-container shorthand (image and container fields at the
+ * top level, container named after the pod) or a `containers` array
+ */
 export interface CreatePodRequest {
   name: string;
   namespace?: string;
-  image: string;
+  image?: string;
   resources?: ResourceRequirements;
   labels?: Record<string, string>;
   env?: EnvVar[];
+  envFrom?: EnvFromSource[];
+  configMapVolumes?: ConfigMapVolume[];
+  secretVolumes?: SecretVolume[];
+  imagePullSecrets?: string[];
+  volumes?: Volume[];
+  volumeMounts?: VolumeMount[];
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  startupProbe?: Probe;
   command?: string[];
   args?: string[];
+  ports?: ContainerPort[];
+  containers?: ContainerSpec[];
+  initContainers?: InitContainerSpec[];
+  nodeSelector?: Record<string, string>;
+  tolerations?: Toleration[];
+  affinity?: { nodes?: NodeAffinityRule[]; pods?: PodAffinityRule[] };
+  antiAffinity?: PodAffinityRule[];
+  priorityClassName?: string;
+  topologySpreadConstraints?: TopologySpreadConstraint[];
+  securityContext?: PodSecurityContext;
+  /** Security context of the shorthand container */
+  containerSecurityContext?: ContainerSecurityContext;
+  /** Defaults to POD_SECURITY_PROFILE */
+  securityProfile?: SecurityProfile;
 }
 
 export interface UpdatePodRequest {
   labels?: Record<string, string>;
 }
 
+export interface PodLogsRequest {
+  /** Container to read logs from (defaults to the pod's default container) */
+  container?: string;
+  tailLines?: number;
+  sinceSeconds?: number;
+  timestamps?: boolean;
+  /** Read logs of the previous terminated container instance */
+  previous?: boolean;
+  /** Keep the connection open and stream new log lines */
+  follow?: boolean;
+}
+
+export interface ExecPodRequest {
+  container?: string;
+  /** Command and arguments; the executable must be in EXEC_ALLOWED_COMMANDS */
+  command: string[];
+  timeoutSeconds?: number;
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code reported by the container runtime, null if none was reported */
+  exitCode: number | null;
+  status: string;
+  message?: string;
+}
+
+/**
+ * Streams bridged between an interactive exec session and its client
+ */
+export interface ExecSessionStreams {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
 export interface PodResponse {
   name: string;
   namespace: string;
@@ -35,15 +269,53 @@ export interface PodResponse {
   phase: string;
   podIP?: string;
   hostIP?: string;
+  /** Node the pod is bound to; unset while it is unscheduled */
+  nodeName?: string;
   startTime?: Date;
+  /** PodScheduled, Initialized, ContainersReady and Ready conditions */
+  conditions: PodCondition[];
   containers: ContainerInfo[];
+  /** Present only when the pod spec has init containers */
+  initContainers?: ContainerInfo[];
   labels?: Record<string, string>;
 }
 
+export interface PodCondition {
+  type: string;
+  status: "True" | "False" | "Unknown";
+  /** e.g. Unschedulable on a PodScheduled condition */
+  reason?: string;
+  message?: string;
+  lastTransitionTime?: Date;
+}
+
+export interface ContainerState {
+  state: "waiting" | "running" | "terminated";
+  reason?: string;
+  message?: string;
+  /** Set for terminated containers */
+  exitCode?: number;
+  signal?: number;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Container spec joined with its status by name; status fields are unset
+ * until the kubelet reports the container
+ */
 export interface ContainerInfo {
   name: string;
   image: string;
+  /** Digest of the image actually running, as reported by the runtime */
+  imageID?: string;
   ready: boolean;
+  started?: boolean;
   restartCount: number;
+  state?: ContainerState;
+  /** Previous termination, useful after a crash restart */
+  lastState?: ContainerState;
+  ports?: ContainerPort[];
   resources?: ResourceRequirements;
+  probes?: ContainerProbes;
 }
@@ -0,0 +1,28 @@
+export interface CreatePvcRequest {
+  name: string;
+  namespace?: string;
+  storageClassName?: string;
+  /** Requested storage, e.g. "1Gi" */
+  size: string;
+  accessMode?:
+    | "ReadWriteOnce"
+    | "ReadOnlyMany"
+    | "ReadWriteMany"
+    | "ReadWriteOncePod";
+  labels?: Record<string, string>;
+}
+
+export interface PvcResponse {
+  name: string;
+  namespace: string;
+  /** Pending, Bound or Lost */
+  status: string;
+  storageClassName?: string;
+  accessModes: string[];
+  requested?: string;
+  /** Actual size of the bound volume */
+  capacity?: string;
+  volumeName?: string;
+  labels?: Record<string, string>;
+  creationTimestamp?: Date;
+}
@@ -0,0 +1,26 @@
+export interface ResourceUsage {
+  hard: string;
+  used: string;
+}
+
+export interface ResourceQuotaResponse {
+  name: string;
+  namespace: string;
+  /** Keyed by quota resource, e.g. "requests.cpu", "limits.memory", "pods" */
+  usage: Record<string, ResourceUsage>;
+  creationTimestamp?: Date;
+}
+
+export interface ContainerLimits {
+  default?: Record<string, string>;
+  defaultRequest?: Record<string, string>;
+  min?: Record<string, string>;
+  max?: Record<string, string>;
+}
+
+export interface LimitRangeResponse {
+  name: string;
+  namespace: string;
+  container: ContainerLimits;
+  creationTimestamp?: Date;
+}
@@ -0,0 +1,24 @@
+export interface SecretKeyInfo {
+  key: string;
+  /** Decoded size in bytes */
+  size: number;
+}
+
+/**
+ * Secret metadata; decoded values are never returned by the API
+ */
+export interface SecretResponse {
+  name: string;
+  namespace: string;
+  type: string;
+  keys: SecretKeyInfo[];
+  labels?: Record<string, string>;
+  immutable?: boolean;
+  creationTimestamp?: Date;
+}
+
+export interface RegistryCredentialResponse {
+  secret: SecretResponse;
+  /** Service account patched to use the secret, if requested */
+  serviceAccount?: string;
+}
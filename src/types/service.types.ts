@@ -1,7 +1,8 @@
 export interface ServicePort {
   name?: string;
   port: number;
-  targetPort: number;
+  /** Port number or name of a container port */
+  targetPort: number | string;
   protocol?: "TCP" | "UDP";
 }
 
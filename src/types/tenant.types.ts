@@ -0,0 +1,35 @@
+import type { NamespaceResponse } from "../services/namespace.service.js";
+import type {
+  LimitRangeResponse,
+  ResourceQuotaResponse,
+} from "./quota.types.js";
+
+export interface TenantResponse {
+  name: string;
+  namespace: NamespaceResponse;
+  quota?: ResourceQuotaResponse;
+  limits?: LimitRangeResponse;
+  networkPolicy?: string;
+  serviceAccount: string;
+}
+
+export interface TenantUsage {
+  name: string;
+  namespace: NamespaceResponse;
+  quota?: ResourceQuotaResponse;
+  pods: {
+    total: number;
+    /** Pod count per phase, e.g. { Running: 3, Pending: 1 } */
+    byPhase: Record<string, number>;
+    restarts: number;
+  };
+  services: {
+    total: number;
+    /** Service count per type, e.g. { ClusterIP: 2 } */
+    byType: Record<string, number>;
+  };
+  ingresses: {
+    total: number;
+    hosts: string[];
+  };
+}
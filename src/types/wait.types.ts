@@ -0,0 +1,21 @@
+/**
+ * Terminal state of an object being waited on
+ */
+export type WaitOutcome = "Ready" | "Completed" | "Failed" | "Timeout";
+
+/**
+ * Result of evaluating an object while waiting; undefined means keep waiting
+ */
+export interface WaitCheck {
+  outcome: Exclude<WaitOutcome, "Timeout">;
+  /** Machine-readable reason, e.g. ImagePullBackOff or CrashLoopBackOff */
+  reason?: string;
+  message?: string;
+}
+
+export interface WaitResult {
+  outcome: WaitOutcome;
+  reason?: string;
+  message?: string;
+  elapsedSeconds: number;
+}
@@ -0,0 +1,25 @@
+import type { PodResponse } from "./pod.types.js";
+import type { ServiceResponse } from "./service.types.js";
+import type { IngressResponse } from "./ingress.types.js";
+import type { NamespaceResponse } from "../services/namespace.service.js";
+
+export type WatchResource = "pods" | "services" | "ingresses" | "namespaces";
+
+export type WatchEventType =
+  | "ADDED"
+  | "MODIFIED"
+  | "DELETED"
+  | "BOOKMARK"
+  | "RESET"
+  | "ERROR";
+
+export interface ResourceWatchEvent {
+  type: WatchEventType;
+  /** resourceVersion to resume from after this event */
+  resourceVersion?: string;
+  /** Object mapped to the same shape as the list/get endpoints */
+  object?: PodResponse | ServiceResponse | IngressResponse | NamespaceResponse;
+  /** Error details for ERROR and RESET (410, resourceVersion too old) events */
+  error?: string;
+  code?: number;
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { getConfig } from "../config/index.js";
+import {
+  fieldSelectorSchema,
+  labelSelectorSchema,
+} from "./selector.validator.js";
+
+/**
+ * Boolean query string flag ("true" / "false")
+ */
+export const queryBooleanSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+/**
+ * Opt-in wait for create endpoints: ?wait=true&timeoutSeconds=N
+ */
+export const waitQuerySchema = z.object({
+  wait: queryBooleanSchema.default("false"),
+  timeoutSeconds: z.coerce.number().int().min(1).max(600).default(120),
+});
+
+/**
+ * Read consistency for list/get endpoints: ?consistent=true bypasses
+ * the informer cache and reads from the API server
+ */
+export const readQuerySchema = z.object({
+  consistent: queryBooleanSchema.default("false"),
+});
+
+/**
+ * Pagination and filtering for list endpoints:
+ * ?limit=N&continue=TOKEN&labelSelector=...&fieldSelector=...
+ * limit defaults to DEFAULT_PAGE_SIZE and is clamped to MAX_PAGE_SIZE.
+ */
+export const listQuerySchema = readQuerySchema.extend({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, "limit must be at least 1")
+    .optional()
+    .transform((limit) => {
+      const { defaultPageSize, maxPageSize } = getConfig();
+      return Math.min(limit ?? defaultPageSize, maxPageSize);
+    }),
+  continue: z.string().min(1).optional(),
+  labelSelector: labelSelectorSchema.optional(),
+  fieldSelector: fieldSelectorSchema.optional(),
+});
+
+export type WaitQuery = z.infer<typeof waitQuerySchema>;
+export type ReadQuery = z.infer<typeof readQuerySchema>;
+export type ListQuery = z.infer<typeof listQuerySchema>;
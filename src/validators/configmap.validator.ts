@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const dataKeySchema = z
+  .string()
+  .max(253)
+  .regex(
+    /^[-._a-zA-Z0-9]+$/,
+    "Keys must consist of alphanumeric characters, '-', '_' or '.'",
+  );
+
+const dataSchema = z.record(dataKeySchema, z.string());
+
+const binaryDataSchema = z.record(
+  dataKeySchema,
+  z.string().base64("Binary data values must be base64 encoded"),
+);
+
+export const createConfigMapSchema = z.object({
+  name: z
+    .string()
+    .min(1, "ConfigMap name is required")
+    .max(253)
+    .regex(
+      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/,
+      "ConfigMap name must be a lowercase DNS subdomain",
+    ),
+  namespace: z.string().default("default"),
+  data: dataSchema.optional(),
+  binaryData: binaryDataSchema.optional(),
+  labels: z.record(z.string()).optional(),
+  immutable: z.boolean().optional(),
+});
+
+// Replaces data and/or binaryData; omitted fields (and labels) are left
+// unchanged, so send {} to clear one
+export const updateConfigMapSchema = z.object({
+  data: dataSchema.optional(),
+  binaryData: binaryDataSchema.optional(),
+  labels: z.record(z.string()).optional(),
+});
+
+export type CreateConfigMapInput = z.infer<typeof createConfigMapSchema>;
+export type UpdateConfigMapInput = z.infer<typeof updateConfigMapSchema>;
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { envVarSchema, resourceRequirementsSchema } from "./pod.validator.js";
+
+const podTemplateSchema = z.object({
+  /** Pod labels; defaults to the deployment selector */
+  labels: z.record(z.string()).optional(),
+  image: z.string().min(1, "Container image is required"),
+  resources: resourceRequirementsSchema.optional(),
+  env: z.array(envVarSchema).optional(),
+  command: z.array(z.string()).optional(),
+  args: z.array(z.string()).optional(),
+});
+
+export const createDeploymentSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Deployment name is required")
+      .max(253, "Deployment name must be at most 253 characters")
+      .regex(
+        /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+        "Deployment name must be lowercase alphanumeric with hyphens",
+      ),
+    namespace: z.string().default("default"),
+    replicas: z.number().int().min(0).default(1),
+    /** Label selector for managed pods; defaults to { app: name } */
+    selector: z
+      .record(z.string())
+      .refine((obj) => Object.keys(obj).length > 0, {
+        message: "Selector must not be empty",
+      })
+      .optional(),
+    labels: z.record(z.string()).optional(),
+    template: podTemplateSchema,
+  })
+  .refine(
+    (input) =>
+      !input.selector ||
+      !input.template.labels ||
+      Object.entries(input.selector).every(
+        ([key, value]) => input.template.labels?.[key] === value,
+      ),
+    {
+      message: "Template labels must include every selector label",
+      path: ["template", "labels"],
+    },
+  )
+  // The default selector is merged into the template labels, so they only
+  // must not contradict it
+  .refine(
+    (input) =>
+      !!input.selector ||
+      input.template.labels?.app === undefined ||
+      input.template.labels.app === input.name,
+    {
+      message:
+        'Template label "app" must match the deployment name when no selector is given',
+      path: ["template", "labels", "app"],
+    },
+  );
+
+export const updateDeploymentImageSchema = z.object({
+  /** Container to update; defaults to the first container in the template */
+  container: z.string().min(1).optional(),
+  image: z.string().min(1, "Container image is required"),
+});
+
+export const scaleDeploymentSchema = z.object({
+  replicas: z.number().int().min(0, "Replicas must be zero or more"),
+});
+
+export const rollbackDeploymentSchema = z.object({
+  /** Target revision; defaults to the revision before the current one */
+  revision: z.number().int().min(1).optional(),
+});
+
+export type CreateDeploymentInput = z.infer<typeof createDeploymentSchema>;
+export type UpdateDeploymentImageInput = z.infer<
+  typeof updateDeploymentImageSchema
+>;
+export type ScaleDeploymentInput = z.infer<typeof scaleDeploymentSchema>;
+export type RollbackDeploymentInput = z.infer<typeof rollbackDeploymentSchema>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { listQuerySchema } from "./common.validator.js";
+
+/**
+ * Filters for GET /api/events, combined with any fieldSelector given:
+ * ?namespace=default&kind=Pod&name=web&type=Warning
+ */
+export const eventQuerySchema = listQuerySchema.extend({
+  namespace: z.string().min(1).optional(),
+  /** Kind of the involved object, e.g. Pod or Deployment */
+  kind: z
+    .string()
+    .regex(/^[A-Za-z][A-Za-z0-9]*$/, "kind must be a resource kind")
+    .optional(),
+  /** Name of the involved object */
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/,
+      "name must be a Kubernetes object name",
+    )
+    .optional(),
+  /** UID of the involved object, to skip events of a deleted namesake */
+  uid: z
+    .string()
+    .regex(/^[a-f0-9-]+$/, "uid must be a Kubernetes UID")
+    .optional(),
+  type: z.enum(["Normal", "Warning"]).optional(),
+});
+
+export type EventQuery = z.infer<typeof eventQuerySchema>;
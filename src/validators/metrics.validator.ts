@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { labelSelectorSchema } from "./selector.validator.js";
+
+/**
+ * Filters for GET /api/metrics/pods: ?namespace=default&labelSelector=app=web
+ */
+export const podMetricsQuerySchema = z.object({
+  namespace: z.string().min(1).optional(),
+  labelSelector: labelSelectorSchema.optional(),
+});
+
+export type PodMetricsQuery = z.infer<typeof podMetricsQuerySchema>;
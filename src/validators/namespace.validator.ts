@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+export const createNamespaceSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Namespace name is required")
+    .max(63)
+    .regex(
+      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+      "Namespace name must be lowercase alphanumeric with hyphens",
+    ),
+  labels: z.record(z.string()).optional(),
+  annotations: z.record(z.string()).optional(),
+});
+
+// A null value removes the key (JSON merge patch semantics)
+export const updateNamespaceSchema = z
+  .object({
+    labels: z.record(z.string().nullable()).optional(),
+    annotations: z.record(z.string().nullable()).optional(),
+  })
+  .refine((input) => input.labels || input.annotations, {
+    message: "At least one of labels or annotations is required",
+  });
+
+export type CreateNamespaceInput = z.infer<typeof createNamespaceSchema>;
+export type UpdateNamespaceInput = z.infer<typeof updateNamespaceSchema>;
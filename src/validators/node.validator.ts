@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { queryBooleanSchema } from "./common.validator.js";
+
+export const drainNodeSchema = z.object({
+  /** Give up waiting for evictions after this long; the node stays cordoned */
+  timeoutSeconds: z.number().int().min(1).max(3600).default(300),
+  /** Overrides each pod's terminationGracePeriodSeconds */
+  gracePeriodSeconds: z.number().int().min(0).optional(),
+  /** Leave DaemonSet pods running instead of refusing to drain */
+  ignoreDaemonSets: z.boolean().default(true),
+  /** Evict pods with emptyDir volumes, losing their data */
+  deleteEmptyDirData: z.boolean().default(false),
+  /** Evict pods without a controller, which will not be recreated */
+  force: z.boolean().default(false),
+});
+
+/**
+ * ?stream=true reports drain progress as Server-Sent Events
+ */
+export const drainQuerySchema = z.object({
+  stream: queryBooleanSchema.default("false"),
+});
+
+export type DrainNodeInput = z.infer<typeof drainNodeSchema>;
+export type DrainQuery = z.infer<typeof drainQuerySchema>;
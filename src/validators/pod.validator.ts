@@ -1,41 +1,627 @@
 import { z } from "zod";
+import { queryBooleanSchema } from "./common.validator.js";
+import { storageQuantitySchema } from "./pvc.validator.js";
 
-const resourceQuantitySchema = z.object({
+export const resourceQuantitySchema = z.object({
   cpu: z.string().optional(),
   memory: z.string().optional(),
 });
 
-const resourceRequirementsSchema = z.object({
+export const resourceRequirementsSchema = z.object({
   requests: resourceQuantitySchema.optional(),
   limits: resourceQuantitySchema.optional(),
 });
 
-const envVarSchema = z.object({
-  name: z.string().min(1),
-  value: z.string(),
+export const envVarSchema = z
+  .object({
+    name: z.string().min(1),
+    value: z.string().optional(),
+    /** Read the value from a secret key so it never appears in the pod spec */
+    valueFrom: z
+      .object({
+        secretKeyRef: z.object({
+          name: z.string().min(1, "Secret name is required"),
+          key: z.string().min(1, "Secret key is required"),
+          optional: z.boolean().optional(),
+        }),
+      })
+      .optional(),
+  })
+  .refine(
+    (env) => (env.value === undefined) !== (env.valueFrom === undefined),
+    {
+      message: "Exactly one of value or valueFrom is required",
+    },
+  );
+
+export const envFromSchema = z
+  .object({
+    configMap: z.string().min(1).optional(),
+    secret: z.string().min(1).optional(),
+    /** Prepended to every variable name taken from the source */
+    prefix: z.string().optional(),
+    optional: z.boolean().optional(),
+  })
+  .refine((source) => !source.configMap !== !source.secret, {
+    message: "Exactly one of configMap or secret is required",
+  });
+
+const keyToPathSchema = z.object({
+  key: z.string().min(1),
+  path: z.string().min(1),
+});
+
+export const configMapVolumeSchema = z.object({
+  /** ConfigMap to mount */
+  name: z.string().min(1, "ConfigMap name is required"),
+  mountPath: z.string().startsWith("/", "mountPath must be absolute"),
+  /** Mount only these keys, at the given relative paths */
+  items: z.array(keyToPathSchema).optional(),
+  optional: z.boolean().optional(),
 });
 
-export const createPodSchema = z.object({
-  name: z
-    .string()
-    .min(1, "Pod name is required")
-    .max(253, "Pod name must be at most 253 characters")
-    .regex(
-      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
-      "Pod name must be lowercase alphanumeric with hyphens",
-    ),
-  namespace: z.string().default("default"),
+export const secretVolumeSchema = z.object({
+  /** Secret to mount */
+  name: z.string().min(1, "Secret name is required"),
+  mountPath: z.string().startsWith("/", "mountPath must be absolute"),
+  /** Mount only these keys, at the given relative paths */
+  items: z.array(keyToPathSchema).optional(),
+  optional: z.boolean().optional(),
+});
+
+const volumeNameSchema = z
+  .string()
+  .max(63)
+  .regex(
+    /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+    "Volume name must be lowercase alphanumeric with hyphens",
+  );
+
+// Sources use the Kubernetes field names; exactly one must be set
+export const volumeSchema = z
+  .object({
+    name: volumeNameSchema,
+    persistentVolumeClaim: z
+      .object({
+        claimName: z.string().min(1, "claimName is required"),
+        readOnly: z.boolean().optional(),
+      })
+      .optional(),
+    emptyDir: z
+      .object({
+        medium: z.enum(["", "Memory"]).optional(),
+        sizeLimit: storageQuantitySchema.optional(),
+      })
+      .optional(),
+    configMap: z
+      .object({
+        name: z.string().min(1, "ConfigMap name is required"),
+        items: z.array(keyToPathSchema).optional(),
+        optional: z.boolean().optional(),
+      })
+      .optional(),
+    secret: z
+      .object({
+        secretName: z.string().min(1, "secretName is required"),
+        items: z.array(keyToPathSchema).optional(),
+        optional: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    (volume) =>
+      [
+        volume.persistentVolumeClaim,
+        volume.emptyDir,
+        volume.configMap,
+        volume.secret,
+      ].filter(Boolean).length === 1,
+    {
+      message:
+        "Exactly one of persistentVolumeClaim, emptyDir, configMap or secret is required",
+    },
+  );
+
+export const volumeMountSchema = z.object({
+  /** Name of an entry in volumes */
+  name: volumeNameSchema,
+  mountPath: z.string().startsWith("/", "mountPath must be absolute"),
+  subPath: z.string().optional(),
+  readOnly: z.boolean().optional(),
+});
+
+// IANA service name of a container port
+export const portNameSchema = z
+  .string()
+  .max(15)
+  .regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/, "Invalid port name");
+
+// Port number or IANA service name of a container port
+const probePortSchema = z.union([
+  z.number().int().min(1).max(65535),
+  portNameSchema,
+]);
+
+// Exactly one of httpGet, tcpSocket or exec must be set
+export const probeSchema = z
+  .object({
+    httpGet: z
+      .object({
+        path: z.string().startsWith("/", "path must be absolute").default("/"),
+        port: probePortSchema,
+        scheme: z.enum(["HTTP", "HTTPS"]).optional(),
+        httpHeaders: z
+          .array(z.object({ name: z.string().min(1), value: z.string() }))
+          .optional(),
+      })
+      .optional(),
+    tcpSocket: z.object({ port: probePortSchema }).optional(),
+    exec: z
+      .object({
+        command: z.array(z.string().min(1)).min(1, "Command is required"),
+      })
+      .optional(),
+    initialDelaySeconds: z.number().int().min(0).optional(),
+    periodSeconds: z.number().int().min(1).optional(),
+    timeoutSeconds: z.number().int().min(1).optional(),
+    successThreshold: z.number().int().min(1).optional(),
+    failureThreshold: z.number().int().min(1).optional(),
+  })
+  .refine(
+    (probe) =>
+      [probe.httpGet, probe.tcpSocket, probe.exec].filter(Boolean).length === 1,
+    { message: "Exactly one of httpGet, tcpSocket or exec is required" },
+  );
+
+export const containerPortSchema = z.object({
+  /** Usable as a named targetPort or probe port */
+  name: portNameSchema.optional(),
+  containerPort: z.number().int().min(1).max(65535),
+  protocol: z.enum(["TCP", "UDP", "SCTP"]).default("TCP"),
+});
+
+const seccompProfileSchema = z
+  .object({
+    type: z.enum(["RuntimeDefault", "Localhost", "Unconfined"]),
+    /** Profile path relative to the kubelet's seccomp directory */
+    localhostProfile: z.string().min(1).optional(),
+  })
+  .refine(
+    (profile) => (profile.type === "Localhost") === !!profile.localhostProfile,
+    {
+      message:
+        "localhostProfile is required for, and only allowed with, Localhost",
+      path: ["localhostProfile"],
+    },
+  );
+
+const capabilitySchema = z
+  .string()
+  .regex(
+    /^[A-Z_]+$/,
+    "Capabilities are uppercase names, e.g. NET_BIND_SERVICE",
+  );
+
+const runAsSchema = {
+  runAsUser: z.number().int().min(0).optional(),
+  runAsGroup: z.number().int().min(0).optional(),
+  runAsNonRoot: z.boolean().optional(),
+  seccompProfile: seccompProfileSchema.optional(),
+};
+
+// The kubelet refuses to start a container asked to run as non-root UID 0
+function refineRunAs(
+  context: { runAsUser?: number; runAsNonRoot?: boolean },
+  ctx: z.RefinementCtx,
+): void {
+  if (context.runAsNonRoot && context.runAsUser === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["runAsUser"],
+      message: "runAsUser 0 contradicts runAsNonRoot",
+    });
+  }
+}
+
+export const podSecurityContextSchema = z
+  .object({
+    ...runAsSchema,
+    /** Group that owns mounted volumes, so a non-root user can write to them */
+    fsGroup: z.number().int().min(0).optional(),
+    supplementalGroups: z.array(z.number().int().min(0)).optional(),
+  })
+  .superRefine(refineRunAs);
+
+export const containerSecurityContextSchema = z
+  .object({
+    ...runAsSchema,
+    readOnlyRootFilesystem: z.boolean().optional(),
+    allowPrivilegeEscalation: z.boolean().optional(),
+    privileged: z.boolean().optional(),
+    capabilities: z
+      .object({
+        add: z.array(capabilitySchema).optional(),
+        drop: z.array(capabilitySchema).optional(),
+      })
+      .optional(),
+  })
+  .superRefine((context, ctx) => {
+    refineRunAs(context, ctx);
+    if (context.privileged && context.allowPrivilegeEscalation === false) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["allowPrivilegeEscalation"],
+        message: "Privileged containers always allow privilege escalation",
+      });
+    }
+  });
+
+const containerNameSchema = z
+  .string()
+  .min(1, "Container name is required")
+  .max(63)
+  .regex(
+    /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+    "Container name must be lowercase alphanumeric with hyphens",
+  );
+
+// Init containers run to completion before the app containers start, so
+// they take no probes
+export const initContainerSchema = z.object({
+  name: containerNameSchema,
   image: z.string().min(1, "Container image is required"),
   resources: resourceRequirementsSchema.optional(),
-  labels: z.record(z.string()).optional(),
   env: z.array(envVarSchema).optional(),
+  envFrom: z.array(envFromSchema).optional(),
+  ports: z.array(containerPortSchema).optional(),
+  volumeMounts: z.array(volumeMountSchema).optional(),
   command: z.array(z.string()).optional(),
   args: z.array(z.string()).optional(),
+  securityContext: containerSecurityContextSchema.optional(),
+});
+
+export const containerSchema = initContainerSchema.extend({
+  livenessProbe: probeSchema.optional(),
+  readinessProbe: probeSchema.optional(),
+  startupProbe: probeSchema.optional(),
 });
 
+// Node label requirement; rules without a weight are required, rules with
+// one are scheduling preferences
+export const nodeAffinityRuleSchema = z
+  .object({
+    key: z.string().min(1, "Label key is required"),
+    operator: z.enum(["In", "NotIn", "Exists", "DoesNotExist", "Gt", "Lt"]),
+    values: z.array(z.string()).optional(),
+    weight: z.number().int().min(1).max(100).optional(),
+  })
+  .superRefine((rule, ctx) => {
+    const count = rule.values?.length ?? 0;
+    const valid =
+      rule.operator === "In" || rule.operator === "NotIn"
+        ? count > 0
+        : rule.operator === "Gt" || rule.operator === "Lt"
+          ? count === 1 && /^-?\d+$/.test(rule.values?.[0] ?? "")
+          : count === 0;
+
+    if (!valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["values"],
+        message:
+          rule.operator === "In" || rule.operator === "NotIn"
+            ? `${rule.operator} requires at least one value`
+            : rule.operator === "Gt" || rule.operator === "Lt"
+              ? `${rule.operator} requires exactly one integer value`
+              : `${rule.operator} takes no values`,
+      });
+    }
+  });
+
+// Co-locate with (affinity) or keep away from (antiAffinity) pods matching
+// the labels within the topology domain; a weight makes it a preference
+export const podAffinityRuleSchema = z.object({
+  matchLabels: z
+    .record(z.string())
+    .refine((labels) => Object.keys(labels).length > 0, {
+      message: "matchLabels must not be empty",
+    }),
+  topologyKey: z.string().min(1).default("kubernetes.io/hostname"),
+  /** Namespaces to match pods in; defaults to the pod's own namespace */
+  namespaces: z.array(z.string().min(1)).optional(),
+  weight: z.number().int().min(1).max(100).optional(),
+});
+
+export const tolerationSchema = z
+  .object({
+    /** Taint key; empty with operator Exists tolerates every taint */
+    key: z.string().optional(),
+    operator: z.enum(["Equal", "Exists"]).default("Equal"),
+    value: z.string().optional(),
+    effect: z.enum(["NoSchedule", "PreferNoSchedule", "NoExecute"]).optional(),
+    /** How long a NoExecute taint is tolerated before eviction */
+    tolerationSeconds: z.number().int().min(0).optional(),
+  })
+  .superRefine((toleration, ctx) => {
+    if (toleration.operator === "Exists" && toleration.value) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: "value must be empty when operator is Exists",
+      });
+    }
+    if (toleration.operator === "Equal" && !toleration.key) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["key"],
+        message: "key is required when operator is Equal",
+      });
+    }
+    if (
+      toleration.tolerationSeconds !== undefined &&
+      toleration.effect !== "NoExecute"
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["tolerationSeconds"],
+        message: "tolerationSeconds only applies to the NoExecute effect",
+      });
+    }
+  });
+
+export const topologySpreadConstraintSchema = z.object({
+  maxSkew: z.number().int().min(1).default(1),
+  topologyKey: z.string().min(1, "topologyKey is required"),
+  whenUnsatisfiable: z
+    .enum(["DoNotSchedule", "ScheduleAnyway"])
+    .default("DoNotSchedule"),
+  /** Pods counted for the skew; defaults to the pod's own labels */
+  matchLabels: z.record(z.string()).optional(),
+  minDomains: z.number().int().min(1).optional(),
+});
+
+// Single-container shorthand fields, rejected when `containers` is given
+const SHORTHAND_FIELDS = [
+  "image",
+  "resources",
+  "env",
+  "envFrom",
+  "volumeMounts",
+  "livenessProbe",
+  "readinessProbe",
+  "startupProbe",
+  "command",
+  "args",
+  "ports",
+  "containerSecurityContext",
+] as const;
+
+/**
+ * Check a container's volume mounts and probe thresholds
+ */
+function refineContainer(
+  container: {
+    ports?: { name?: string }[];
+    volumeMounts?: { name: string }[];
+    livenessProbe?: { successThreshold?: number };
+    startupProbe?: { successThreshold?: number };
+  },
+  path: (string | number)[],
+  volumeNames: string[],
+  ctx: z.RefinementCtx,
+): void {
+  // Kubernetes only allows successThreshold 1 for these probe types
+  for (const probe of ["livenessProbe", "startupProbe"] as const) {
+    const threshold = container[probe]?.successThreshold;
+    if (threshold !== undefined && threshold !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, probe, "successThreshold"],
+        message: `${probe} successThreshold must be 1`,
+      });
+    }
+  }
+
+  // Named ports are looked up by name, so a name must be unique
+  const portNames = (container.ports || []).map((port) => port.name);
+  portNames.forEach((name, i) => {
+    if (name && portNames.indexOf(name) !== i) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, "ports", i, "name"],
+        message: `Duplicate port name "${name}"`,
+      });
+    }
+  });
+
+  container.volumeMounts?.forEach((mount, i) => {
+    if (!volumeNames.includes(mount.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, "volumeMounts", i, "name"],
+        message: `Volume "${mount.name}" is not defined in volumes`,
+      });
+    }
+  });
+}
+
+export const createPodSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Pod name is required")
+      .max(253, "Pod name must be at most 253 characters")
+      .regex(
+        /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+        "Pod name must be lowercase alphanumeric with hyphens",
+      ),
+    namespace: z.string().default("default"),
+    /** Single-container shorthand; use `containers` for more than one */
+    image: z.string().min(1, "Container image is required").optional(),
+    resources: resourceRequirementsSchema.optional(),
+    labels: z.record(z.string()).optional(),
+    env: z.array(envVarSchema).optional(),
+    envFrom: z.array(envFromSchema).optional(),
+    configMapVolumes: z.array(configMapVolumeSchema).optional(),
+    secretVolumes: z.array(secretVolumeSchema).optional(),
+    /** Names of kubernetes.io/dockerconfigjson secrets in the pod's namespace */
+    imagePullSecrets: z.array(z.string().min(1)).optional(),
+    volumes: z.array(volumeSchema).optional(),
+    volumeMounts: z.array(volumeMountSchema).optional(),
+    livenessProbe: probeSchema.optional(),
+    readinessProbe: probeSchema.optional(),
+    startupProbe: probeSchema.optional(),
+    command: z.array(z.string()).optional(),
+    args: z.array(z.string()).optional(),
+    ports: z.array(containerPortSchema).optional(),
+    containers: z
+      .array(containerSchema)
+      .min(1, "At least one container is required")
+      .optional(),
+    initContainers: z.array(initContainerSchema).optional(),
+    /** Node labels the pod must be scheduled onto, e.g. kubernetes.io/arch */
+    nodeSelector: z.record(z.string()).optional(),
+    tolerations: z.array(tolerationSchema).optional(),
+    affinity: z
+      .object({
+        nodes: z.array(nodeAffinityRuleSchema).optional(),
+        pods: z.array(podAffinityRuleSchema).optional(),
+      })
+      .optional(),
+    antiAffinity: z.array(podAffinityRuleSchema).optional(),
+    priorityClassName: z.string().min(1).optional(),
+    topologySpreadConstraints: z
+      .array(topologySpreadConstraintSchema)
+      .optional(),
+    securityContext: podSecurityContextSchema.optional(),
+    /** Security context of the shorthand container */
+    containerSecurityContext: containerSecurityContextSchema.optional(),
+    /**
+     * Security defaults applied beneath the explicit security contexts;
+     * defaults to POD_SECURITY_PROFILE, "none" opts out
+     */
+    securityProfile: z.enum(["restricted", "none"]).optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.containers) {
+      for (const field of SHORTHAND_FIELDS) {
+        if (input[field] !== undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `${field} cannot be combined with containers; set it per container`,
+          });
+        }
+      }
+    } else if (!input.image) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["image"],
+        message: "Either image or containers is required",
+      });
+    }
+
+    const names = (input.volumes || []).map((volume) => volume.name);
+
+    // Names given to the volumes of the configMapVolumes/secretVolumes shorthands
+    const generatedNames = [
+      ...(input.configMapVolumes || []).map((_, i) => `configmap-${i}`),
+      ...(input.secretVolumes || []).map((_, i) => `secret-${i}`),
+    ];
+
+    names.forEach((name, i) => {
+      if (names.indexOf(name) !== i) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["volumes", i, "name"],
+          message: `Duplicate volume name "${name}"`,
+        });
+      } else if (generatedNames.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["volumes", i, "name"],
+          message: `Volume name "${name}" is already used by a configMapVolumes or secretVolumes entry`,
+        });
+      }
+    });
+
+    refineContainer(input, [], names, ctx);
+    input.containers?.forEach((container, i) =>
+      refineContainer(container, ["containers", i], names, ctx),
+    );
+    input.initContainers?.forEach((container, i) =>
+      refineContainer(container, ["initContainers", i], names, ctx),
+    );
+
+    // Container names share one namespace within the pod
+    const containerNames = [
+      ...(input.containers || []),
+      ...(input.initContainers || []),
+    ].map((container) => container.name);
+    if (!input.containers) {
+      containerNames.push(input.name);
+    }
+
+    containerNames.forEach((name, i) => {
+      if (containerNames.indexOf(name) !== i) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["containers"],
+          message: `Duplicate container name "${name}"`,
+        });
+      }
+    });
+  });
+
 export const updatePodSchema = z.object({
   labels: z.record(z.string()).optional(),
 });
 
+export const podLogsQuerySchema = z.object({
+  container: z.string().min(1).optional(),
+  tailLines: z.coerce.number().int().min(0).optional(),
+  sinceSeconds: z.coerce.number().int().min(1).optional(),
+  timestamps: queryBooleanSchema.optional(),
+  previous: queryBooleanSchema.optional(),
+  follow: queryBooleanSchema.optional(),
+});
+
+export const execPodSchema = z.object({
+  container: z.string().min(1).optional(),
+  command: z.array(z.string().min(1)).min(1, "Command is required"),
+  timeoutSeconds: z.number().int().min(1).max(300).default(30),
+});
+
+export const execSessionQuerySchema = z.object({
+  container: z.string().min(1).optional(),
+  command: z.array(z.string().min(1)).min(1).default(["/bin/sh"]),
+  tty: queryBooleanSchema.default("true"),
+  cols: z.coerce.number().int().min(1).max(1000).default(80),
+  rows: z.coerce.number().int().min(1).max(1000).default(24),
+});
+
+/**
+ * Messages sent by the client of an interactive exec WebSocket
+ */
+export const execClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("stdin"), data: z.string() }),
+  z.object({
+    type: z.literal("resize"),
+    cols: z.number().int().min(1).max(1000),
+    rows: z.number().int().min(1).max(1000),
+  }),
+]);
+
 export type CreatePodInput = z.infer<typeof createPodSchema>;
+export type ContainerInput = z.infer<typeof containerSchema>;
+export type InitContainerInput = z.infer<typeof initContainerSchema>;
+export type PodSecurityContextInput = z.infer<typeof podSecurityContextSchema>;
+export type ContainerSecurityContextInput = z.infer<
+  typeof containerSecurityContextSchema
+>;
+export type NodeAffinityRule = z.infer<typeof nodeAffinityRuleSchema>;
+export type PodAffinityRule = z.infer<typeof podAffinityRuleSchema>;
 export type UpdatePodInput = z.infer<typeof updatePodSchema>;
+export type PodLogsQuery = z.infer<typeof podLogsQuerySchema>;
+export type ExecPodInput = z.infer<typeof execPodSchema>;
+export type ExecSessionQuery = z.infer<typeof execSessionQuerySchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const storageQuantitySchema = z
+  .string()
+  .regex(
+    /^\d+(\.\d+)?(Ki|Mi|Gi|Ti|Pi|Ei|k|M|G|T|P|E)?$/,
+    "Size must be a Kubernetes quantity, e.g. 1Gi or 500Mi",
+  );
+
+export const createPvcSchema = z.object({
+  name: z
+    .string()
+    .min(1, "PVC name is required")
+    .max(253)
+    .regex(
+      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/,
+      "PVC name must be a lowercase DNS subdomain",
+    ),
+  namespace: z.string().default("default"),
+  /** k3s ships the local-path provisioner as its default storage class */
+  storageClassName: z.string().min(1).default("local-path"),
+  size: storageQuantitySchema,
+  accessMode: z
+    .enum([
+      "ReadWriteOnce",
+      "ReadOnlyMany",
+      "ReadWriteMany",
+      "ReadWriteOncePod",
+    ])
+    .default("ReadWriteOnce"),
+  labels: z.record(z.string()).optional(),
+});
+
+export type CreatePvcInput = z.infer<typeof createPvcSchema>;
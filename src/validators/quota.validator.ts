@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { resourceQuantitySchema } from "./pod.validator.js";
+
+export const resourceQuotaSchema = z
+  .object({
+    requests: resourceQuantitySchema.optional(),
+    limits: resourceQuantitySchema.optional(),
+    pods: z.number().int().min(0).optional(),
+    services: z.number().int().min(0).optional(),
+  })
+  .refine(
+    (input) =>
+      input.requests?.cpu ||
+      input.requests?.memory ||
+      input.limits?.cpu ||
+      input.limits?.memory ||
+      input.pods !== undefined ||
+      input.services !== undefined,
+    { message: "At least one quota value is required" },
+  );
+
+// Per-container constraints and defaults applied by the LimitRanger
+export const limitRangeSchema = z
+  .object({
+    default: resourceQuantitySchema.optional(),
+    defaultRequest: resourceQuantitySchema.optional(),
+    min: resourceQuantitySchema.optional(),
+    max: resourceQuantitySchema.optional(),
+  })
+  .refine(
+    (input) => input.default || input.defaultRequest || input.min || input.max,
+    {
+      message:
+        "At least one of default, defaultRequest, min or max is required",
+    },
+  );
+
+export type ResourceQuotaInput = z.infer<typeof resourceQuotaSchema>;
+export type LimitRangeInput = z.infer<typeof limitRangeSchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { dataKeySchema } from "./configmap.validator.js";
+
+const secretBaseSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Secret name is required")
+    .max(253)
+    .regex(
+      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/,
+      "Secret name must be a lowercase DNS subdomain",
+    ),
+  namespace: z.string().default("default"),
+  labels: z.record(z.string()).optional(),
+});
+
+export const dockerRegistrySchema = z.object({
+  server: z.string().min(1, "Registry server is required"),
+  username: z.string().min(1, "Registry username is required"),
+  password: z.string().min(1, "Registry password is required"),
+  email: z.string().email().optional(),
+});
+
+// Values are plain text; the service base64-encodes them
+export const createSecretSchema = z.discriminatedUnion("type", [
+  secretBaseSchema.extend({
+    type: z.literal("Opaque"),
+    data: z
+      .record(dataKeySchema, z.string())
+      .refine((data) => Object.keys(data).length > 0, {
+        message: "At least one key is required",
+      }),
+  }),
+  secretBaseSchema.merge(dockerRegistrySchema).extend({
+    type: z.literal("docker-registry"),
+  }),
+  secretBaseSchema.extend({
+    type: z.literal("tls"),
+    cert: z.string().includes("-----BEGIN CERTIFICATE-----", {
+      message: "cert must be a PEM-encoded certificate",
+    }),
+    key: z.string().includes("PRIVATE KEY-----", {
+      message: "key must be a PEM-encoded private key",
+    }),
+  }),
+]);
+
+export const registryCredentialSchema = secretBaseSchema
+  .merge(dockerRegistrySchema)
+  .extend({
+    /** Add the secret to the namespace's "default" service account */
+    patchDefaultServiceAccount: z.boolean().default(false),
+  });
+
+export const rotateSecretKeySchema = z.object({
+  key: dataKeySchema,
+  value: z.string(),
+});
+
+export type CreateSecretInput = z.infer<typeof createSecretSchema>;
+export type DockerRegistryInput = z.infer<typeof dockerRegistrySchema>;
+export type RegistryCredentialInput = z.infer<typeof registryCredentialSchema>;
+export type RotateSecretKeyInput = z.infer<typeof rotateSecretKeySchema>;
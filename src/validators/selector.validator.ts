@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+/**
+ * A single parsed label selector requirement
+ */
+export interface LabelRequirement {
+  key: string;
+  operator: "exists" | "notexists" | "=" | "!=" | "in" | "notin";
+  values: string[];
+}
+
+const LABEL_NAME = "[A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?";
+const LABEL_PREFIX =
+  "[a-z0-9]([-a-z0-9]*[a-z0-9])?(\\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*";
+const LABEL_KEY = new RegExp(`^(${LABEL_PREFIX}/)?${LABEL_NAME}$`);
+const LABEL_VALUE = new RegExp(`^(${LABEL_NAME})?$`);
+
+const SET_REQUIREMENT = /^(\S+)\s+(in|notin)\s*\(([^()]*)\)$/;
+const EQUALITY_REQUIREMENT = /^([^\s=!]+)\s*(==|!=|=)\s*(\S*)$/;
+const EXISTS_REQUIREMENT = /^(!?)\s*([^\s=!(),]+)$/;
+
+const FIELD_REQUIREMENT =
+  /^([A-Za-z][A-Za-z0-9]*(\.[A-Za-z][A-Za-z0-9]*)*)\s*(==|!=|=)\s*([^,=!]*)$/;
+
+/**
+ * Split on commas that are not inside a set, e.g. "a in (x,y),b=c"
+ */
+function splitRequirements(selector: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of selector) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
+function parseRequirement(requirement: string): LabelRequirement {
+  const set = SET_REQUIREMENT.exec(requirement);
+  if (set) {
+    const values = set[3].split(",").map((v) => v.trim());
+    if (!LABEL_KEY.test(set[1])) {
+      throw new Error(`invalid label key "${set[1]}"`);
+    }
+    if (values.some((v) => !LABEL_VALUE.test(v))) {
+      throw new Error(`invalid value in "${requirement}"`);
+    }
+    return {
+      key: set[1],
+      operator: set[2] as "in" | "notin",
+      values,
+    };
+  }
+
+  const equality = EQUALITY_REQUIREMENT.exec(requirement);
+  if (equality) {
+    if (!LABEL_KEY.test(equality[1])) {
+      throw new Error(`invalid label key "${equality[1]}"`);
+    }
+    if (!LABEL_VALUE.test(equality[3])) {
+      throw new Error(`invalid label value "${equality[3]}"`);
+    }
+    return {
+      key: equality[1],
+      operator: equality[2] === "!=" ? "!=" : "=",
+      values: [equality[3]],
+    };
+  }
+
+  const exists = EXISTS_REQUIREMENT.exec(requirement);
+  if (exists && LABEL_KEY.test(exists[2])) {
+    return {
+      key: exists[2],
+      operator: exists[1] ? "notexists" : "exists",
+      values: [],
+    };
+  }
+
+  throw new Error(`invalid requirement "${requirement}"`);
+}
+
+/**
+ * Parse a label selector (equality- and set-based) into requirements
+ * @throws {Error} If the selector is malformed
+ */
+export function parseLabelSelector(selector: string): LabelRequirement[] {
+  return splitRequirements(selector).map(parseRequirement);
+}
+
+/**
+ * Check a label set against parsed selector requirements
+ */
+export function matchesLabelSelector(
+  requirements: LabelRequirement[],
+  labels: Record<string, string> = {},
+): boolean {
+  return requirements.every(({ key, operator, values }) => {
+    const has = key in labels;
+    switch (operator) {
+      case "exists":
+        return has;
+      case "notexists":
+        return !has;
+      case "=":
+      case "in":
+        return has && values.includes(labels[key]);
+      case "!=":
+      case "notin":
+        return !has || !values.includes(labels[key]);
+    }
+  });
+}
+
+export const labelSelectorSchema = z
+  .string()
+  .min(1)
+  .superRefine((selector, ctx) => {
+    try {
+      parseLabelSelector(selector);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Malformed labelSelector: ${(error as Error).message}`,
+      });
+    }
+  });
+
+export const fieldSelectorSchema = z
+  .string()
+  .min(1)
+  .superRefine((selector, ctx) => {
+    for (const requirement of selector.split(",")) {
+      if (!FIELD_REQUIREMENT.test(requirement.trim())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Malformed fieldSelector: invalid requirement "${requirement}"`,
+        });
+      }
+    }
+  });
@@ -1,9 +1,11 @@
 import { z } from "zod";
+import { portNameSchema } from "./pod.validator.js";
 
 const servicePortSchema = z.object({
   name: z.string().optional(),
   port: z.number().int().min(1).max(65535),
-  targetPort: z.number().int().min(1).max(65535),
+  /** Port number, or the name of a port declared by the selected pods */
+  targetPort: z.union([z.number().int().min(1).max(65535), portNameSchema]),
   protocol: z.enum(["TCP", "UDP"]).default("TCP"),
 });
 
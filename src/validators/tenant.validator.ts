@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { createNamespaceSchema } from "./namespace.validator.js";
+import { limitRangeSchema, resourceQuotaSchema } from "./quota.validator.js";
+
+export const createTenantSchema = createNamespaceSchema.extend({
+  /** Omit to provision the tenant without a ResourceQuota */
+  quota: resourceQuotaSchema.optional(),
+  /** Omit to provision the tenant without a LimitRange */
+  limits: limitRangeSchema.optional(),
+  /** Traffic denied by the default NetworkPolicy ("none" skips it) */
+  defaultDeny: z.enum(["ingress", "ingress-egress", "none"]).default("ingress"),
+  serviceAccount: z
+    .string()
+    .max(253)
+    .regex(
+      /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/,
+      "Service account name must be lowercase alphanumeric with hyphens",
+    )
+    .default("deployer"),
+});
+
+export type CreateTenantInput = z.infer<typeof createTenantSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { labelSelectorSchema } from "./selector.validator.js";
+
+export const watchParamsSchema = z.object({
+  resource: z.enum(["pods", "services", "ingresses", "namespaces"]),
+});
+
+export const watchQuerySchema = z.object({
+  /** Namespace filter (ignored for the namespaces resource) */
+  namespace: z.string().min(1).optional(),
+  labelSelector: labelSelectorSchema.optional(),
+  /** Resume after this resourceVersion instead of replaying current state */
+  resourceVersion: z.string().min(1).optional(),
+});
+
+export type WatchParams = z.infer<typeof watchParamsSchema>;
+export type WatchQuery = z.infer<typeof watchQuerySchema>;
@@ -24,6 +24,11 @@ describe('Configuration Module', () => {
         shutdownTimeoutMs: 30000,
         defaultPageSize: 100,
         maxPageSize: 1000,
+        execAllowedCommands: ['ls', 'cat', 'ps', 'df'],
+        execInteractiveShells: false,
+        cacheEnabled: true,
+        protectedNamespaces: ['kube-system', 'kube-public', 'kube-node-lease', 'default'],
+        podSecurityProfile: 'restricted',
       });
     });
 
@@ -76,6 +81,26 @@ describe('Configuration Module', () => {
       expect(typeof config.maxPageSize).toBe('number');
     });
 
+    it('should parse EXEC_ALLOWED_COMMANDS as comma-separated list', () => {
+      const config = validateConfig({ EXEC_ALLOWED_COMMANDS: ' /bin/sh , cat,, env ' });
+      
+      expect(config.execAllowedCommands).toEqual(['/bin/sh', 'cat', 'env']);
+    });
+
+    it('should parse PROTECTED_NAMESPACES as comma-separated list', () => {
+      const config = validateConfig({ PROTECTED_NAMESPACES: 'kube-system, platform' });
+      
+      expect(config.protectedNamespaces).toEqual(['kube-system', 'platform']);
+    });
+
+    it('should throw error for unknown POD_SECURITY_PROFILE values', () => {
+      expect(() => validateConfig({ POD_SECURITY_PROFILE: 'baseline' })).toThrow(/POD_SECURITY_PROFILE/);
+    });
+
+    it('should throw error for invalid CACHE_ENABLED value', () => {
+      expect(() => validateConfig({ CACHE_ENABLED: 'yes' })).toThrow(/CACHE_ENABLED/);
+    });
+
     it('should accept valid NODE_ENV values', () => {
       const devConfig = validateConfig({ NODE_ENV: 'development' });
       expect(devConfig.nodeEnv).toBe('development');
@@ -238,6 +263,11 @@ describe('Configuration Module', () => {
         SHUTDOWN_TIMEOUT_MS: '60000',
         DEFAULT_PAGE_SIZE: '50',
         MAX_PAGE_SIZE: '500',
+        EXEC_ALLOWED_COMMANDS: '/bin/sh,ls',
+        EXEC_INTERACTIVE_SHELLS: 'true',
+        CACHE_ENABLED: 'false',
+        PROTECTED_NAMESPACES: 'kube-system,tenants',
+        POD_SECURITY_PROFILE: 'none',
       };
 
       const config = validateConfig(customEnv);
@@ -255,6 +285,11 @@ describe('Configuration Module', () => {
         shutdownTimeoutMs: 60000,
         defaultPageSize: 50,
         maxPageSize: 500,
+        execAllowedCommands: ['/bin/sh', 'ls'],
+        execInteractiveShells: true,
+        cacheEnabled: false,
+        protectedNamespaces: ['kube-system', 'tenants'],
+        podSecurityProfile: 'none',
       });
     });
   });
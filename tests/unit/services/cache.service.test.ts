@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Replace informers with an in-memory fake so no cluster is needed
+const fakeInformer = vi.hoisted(() => ({
+  objects: [] as any[],
+  start: vi.fn(async () => undefined),
+  stop: vi.fn(async () => undefined),
+  on: vi.fn(),
+  list(namespace?: string) {
+    return this.objects.filter((o) => !namespace || o.metadata.namespace === namespace);
+  },
+  get(name: string, namespace?: string) {
+    return this.objects.find(
+      (o) => o.metadata.name === name && o.metadata.namespace === namespace
+    );
+  },
+}));
+
+vi.mock('@kubernetes/client-node', async () => {
+  const actual = await vi.importActual<typeof import('@kubernetes/client-node')>(
+    '@kubernetes/client-node'
+  );
+  return { ...actual, makeInformer: vi.fn(() => fakeInformer) };
+});
+
+import { InformerCache } from '../../../src/services/cache.service';
+
+function pod(namespace: string, name: string, labels?: Record<string, string>) {
+  return { metadata: { namespace, name, labels } };
+}
+
+describe('InformerCache', () => {
+  let cache: InformerCache<any>;
+
+  beforeEach(() => {
+    fakeInformer.objects = [
+      pod('default', 'c', { app: 'web' }),
+      pod('default', 'a', { app: 'api' }),
+      pod('kube-system', 'b'),
+      pod('default', 'b'),
+    ];
+    cache = new InformerCache('pods', '/api/v1/pods', vi.fn() as any);
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await cache.stop();
+    vi.useRealTimers();
+  });
+
+  it('should miss until the informer has synced', async () => {
+    expect(cache.list(undefined, {})).toBeUndefined();
+
+    await cache.start();
+
+    expect(cache.list(undefined, {})?.items).toHaveLength(4);
+    expect(cache.getStatus()).toMatchObject({ synced: true, hits: 1, misses: 1, bypasses: 0 });
+  });
+
+  it('should bypass the cache for consistent reads', async () => {
+    await cache.start();
+
+    expect(cache.list('default', { consistent: true })).toBeUndefined();
+    expect(cache.get('default', 'a', true)).toBeUndefined();
+    expect(cache.getStatus().bypasses).toBe(2);
+  });
+
+  it('should page through objects ordered by namespace and name', async () => {
+    await cache.start();
+
+    const first = cache.list(undefined, { limit: 3 });
+    expect(first?.items.map((o) => `${o.metadata.namespace}/${o.metadata.name}`)).toEqual([
+      'default/a',
+      'default/b',
+      'default/c',
+    ]);
+    expect(first?.remainingItemCount).toBe(1);
+    expect(first?.continue).toMatch(/^cache\./);
+
+    const second = cache.list(undefined, { limit: 3, continue: first?.continue });
+    expect(second?.items.map((o) => o.metadata.name)).toEqual(['b']);
+    expect(second?.continue).toBeUndefined();
+    expect(second?.remainingItemCount).toBeUndefined();
+  });
+
+  it('should keep paging stable when the last returned object is deleted', async () => {
+    await cache.start();
+
+    const first = cache.list('default', { limit: 1 });
+    fakeInformer.objects = fakeInformer.objects.filter((o) => o.metadata.name !== 'a');
+
+    const second = cache.list('default', { limit: 1, continue: first?.continue });
+    expect(second?.items.map((o) => o.metadata.name)).toEqual(['b']);
+  });
+
+  it('should leave API server continue tokens to the API server', async () => {
+    await cache.start();
+
+    expect(cache.list(undefined, { limit: 10, continue: 'eyJ2IjoibWV0YS5rOHMuaW8vdjEifQ' })).toBeUndefined();
+  });
+
+  it('should reject cache continue tokens once the cache is unsynced', async () => {
+    await cache.start();
+    const first = cache.list(undefined, { limit: 1 });
+    await cache.stop();
+
+    expect(() => cache.list(undefined, { limit: 1, continue: first?.continue })).toThrow(
+      /continue token has expired/
+    );
+  });
+
+  it('should count objects missing from the cache as misses', async () => {
+    await cache.start();
+
+    expect(cache.get('default', 'missing')).toBeUndefined();
+    expect(cache.get('default', 'a')).toEqual(pod('default', 'a', { app: 'api' }));
+    expect(cache.getStatus()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should filter by label selector before paging', async () => {
+    await cache.start();
+
+    const page = cache.list(undefined, { labelSelector: 'app in (web,api)', limit: 1 });
+    expect(page?.items.map((o) => o.metadata.name)).toEqual(['a']);
+    expect(page?.remainingItemCount).toBe(1);
+    expect(cache.list(undefined, { labelSelector: '!app' })?.items).toHaveLength(2);
+  });
+
+  it('should leave field selectors to the API server', async () => {
+    await cache.start();
+
+    expect(cache.list(undefined, { fieldSelector: 'status.phase=Running' })).toBeUndefined();
+    expect(cache.getStatus().misses).toBe(1);
+  });
+
+  describe('restarts', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should retry a failed initial list with a growing backoff', async () => {
+      fakeInformer.start
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      await expect(cache.start()).rejects.toThrow('ECONNREFUSED');
+      expect(cache.getStatus().synced).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(fakeInformer.start).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(9999);
+      expect(fakeInformer.start).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fakeInformer.start).toHaveBeenCalledTimes(3);
+      expect(cache.getStatus().synced).toBe(true);
+    });
+
+    it('should keep a single pending restart when errors repeat', async () => {
+      await cache.start();
+      const onError = fakeInformer.on.mock.calls.find(([event]) => event === 'error')?.[1];
+
+      onError(new Error('watch failed'));
+      await vi.advanceTimersByTimeAsync(1000);
+      onError(new Error('watch failed'));
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(fakeInformer.start).toHaveBeenCalledTimes(2);
+      expect(cache.getStatus().synced).toBe(true);
+    });
+
+    it('should not restart once stopped', async () => {
+      fakeInformer.start.mockRejectedValueOnce(new Error('forbidden'));
+
+      await expect(cache.start()).rejects.toThrow('forbidden');
+      await cache.stop();
+      await vi.advanceTimersByTimeAsync(300000);
+
+      expect(fakeInformer.start).toHaveBeenCalledTimes(1);
+    });
+  });
+});
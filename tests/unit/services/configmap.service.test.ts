@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  readNamespacedConfigMap: vi.fn(),
+  replaceNamespacedConfigMap: vi.fn(async (_name: string, _namespace: string, configMap: any) => ({ body: configMap })),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { configMapService } from '../../../src/services/configmap.service';
+
+const existing = {
+  metadata: { name: 'settings', namespace: 'default', labels: { app: 'web' } },
+  data: { LOG_LEVEL: 'info' },
+  binaryData: { 'logo.png': 'iVBORw0KGgo=' },
+};
+
+describe('ConfigMapService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.readNamespacedConfigMap.mockResolvedValue({ body: existing });
+  });
+
+  describe('updateConfigMap', () => {
+    it('should keep binaryData when only data is sent', async () => {
+      await configMapService.updateConfigMap('default', 'settings', { data: { LOG_LEVEL: 'debug' } });
+
+      const configMap = coreV1Api.replaceNamespacedConfigMap.mock.calls[0][2];
+      expect(configMap.data).toEqual({ LOG_LEVEL: 'debug' });
+      expect(configMap.binaryData).toEqual(existing.binaryData);
+      expect(configMap.metadata.labels).toEqual({ app: 'web' });
+    });
+
+    it('should keep data when only binaryData is sent', async () => {
+      await configMapService.updateConfigMap('default', 'settings', { binaryData: { 'icon.png': 'AAAA' } });
+
+      const configMap = coreV1Api.replaceNamespacedConfigMap.mock.calls[0][2];
+      expect(configMap.data).toEqual(existing.data);
+      expect(configMap.binaryData).toEqual({ 'icon.png': 'AAAA' });
+    });
+
+    it('should clear a field sent as an empty object', async () => {
+      await configMapService.updateConfigMap('default', 'settings', { binaryData: {} });
+
+      expect(coreV1Api.replaceNamespacedConfigMap.mock.calls[0][2].binaryData).toEqual({});
+    });
+  });
+});
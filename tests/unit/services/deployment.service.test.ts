@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const appsV1Api = vi.hoisted(() => ({
+  createNamespacedDeployment: vi.fn(async (_namespace: string, deployment: any) => ({ body: deployment })),
+  readNamespacedDeployment: vi.fn(),
+  patchNamespacedDeployment: vi.fn(),
+  listNamespacedReplicaSet: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ appsV1Api, coreV1Api: {}, networkingV1Api: {}, kc: {} }));
+
+import { deploymentService } from '../../../src/services/deployment.service';
+import { createDeploymentSchema } from '../../../src/validators/deployment.validator';
+
+const deployment = (status: object = {}) => ({
+  metadata: { name: 'web', namespace: 'default', uid: 'web-uid', generation: 3, annotations: { 'deployment.kubernetes.io/revision': '3' } },
+  spec: {
+    replicas: 3,
+    selector: { matchLabels: { app: 'web' } },
+    template: { metadata: { labels: { app: 'web' } }, spec: { containers: [{ name: 'web', image: 'nginx:1.27' }] } },
+  },
+  status: { observedGeneration: 3, replicas: 3, updatedReplicas: 3, readyReplicas: 3, availableReplicas: 3, ...status },
+});
+
+const replicaSet = (revision: number, image: string, owner = 'web-uid') => ({
+  metadata: {
+    name: `web-${revision}`,
+    annotations: { 'deployment.kubernetes.io/revision': String(revision) },
+    ownerReferences: [{ kind: 'Deployment', name: 'web', uid: owner, controller: true }],
+  },
+  spec: {
+    template: {
+      metadata: { labels: { app: 'web', 'pod-template-hash': `hash-${revision}` } },
+      spec: { containers: [{ name: 'web', image }] },
+    },
+  },
+  status: { replicas: revision === 3 ? 3 : 0, readyReplicas: revision === 3 ? 3 : 0 },
+});
+
+describe('DeploymentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createDeployment', () => {
+    it('should add the default selector to template labels when the selector is omitted', async () => {
+      await deploymentService.createDeployment(
+        createDeploymentSchema.parse({
+          name: 'my-api',
+          template: { image: 'nginx:alpine', labels: { tier: 'backend' } },
+        }),
+      );
+
+      const { spec } = appsV1Api.createNamespacedDeployment.mock.calls[0][1];
+      expect(spec.selector.matchLabels).toEqual({ app: 'my-api' });
+      expect(spec.template.metadata.labels).toEqual({ tier: 'backend', app: 'my-api' });
+    });
+
+    it('should keep template labels as given when a selector is supplied', async () => {
+      await deploymentService.createDeployment(
+        createDeploymentSchema.parse({
+          name: 'my-api',
+          selector: { component: 'api' },
+          template: { image: 'nginx:alpine', labels: { component: 'api', tier: 'backend' } },
+        }),
+      );
+
+      const { spec } = appsV1Api.createNamespacedDeployment.mock.calls[0][1];
+      expect(spec.selector.matchLabels).toEqual({ component: 'api' });
+      expect(spec.template.metadata.labels).toEqual({ component: 'api', tier: 'backend' });
+    });
+  });
+
+  describe('rollouts', () => {
+    beforeEach(() => {
+      appsV1Api.readNamespacedDeployment.mockResolvedValue({ body: deployment() });
+      appsV1Api.patchNamespacedDeployment.mockResolvedValue({ body: deployment() });
+      appsV1Api.listNamespacedReplicaSet.mockResolvedValue({
+        body: {
+          items: [
+            replicaSet(3, 'nginx:1.27'),
+            replicaSet(1, 'nginx:1.25'),
+            replicaSet(2, 'nginx:1.26'),
+            replicaSet(9, 'nginx:latest', 'other-uid'),
+          ],
+        },
+      });
+    });
+
+    it('should list owned ReplicaSets as revisions, oldest first', async () => {
+      const history = await deploymentService.getDeploymentHistory('default', 'web');
+
+      expect(appsV1Api.listNamespacedReplicaSet.mock.calls[0][5]).toBe('app=web');
+      expect(history.map((r) => [r.revision, r.images[0], r.current])).toEqual([
+        [1, 'nginx:1.25', false],
+        [2, 'nginx:1.26', false],
+        [3, 'nginx:1.27', true],
+      ]);
+    });
+
+    it('should roll back to the requested revision without its pod-template-hash', async () => {
+      await deploymentService.rollbackDeployment('default', 'web', { revision: 1 });
+
+      const [name, namespace, patch, , , , , , options] = appsV1Api.patchNamespacedDeployment.mock.calls[0];
+      expect([name, namespace]).toEqual(['web', 'default']);
+      expect(options.headers['Content-Type']).toBe('application/json-patch+json');
+      expect(patch).toEqual([
+        {
+          op: 'replace',
+          path: '/spec/template',
+          value: { metadata: { labels: { app: 'web' } }, spec: { containers: [{ name: 'web', image: 'nginx:1.25' }] } },
+        },
+      ]);
+    });
+
+    it('should roll back to the previous revision by default', async () => {
+      await deploymentService.rollbackDeployment('default', 'web', {});
+
+      const [patch] = appsV1Api.patchNamespacedDeployment.mock.calls[0][2];
+      expect(patch.value.spec.containers[0].image).toBe('nginx:1.26');
+    });
+
+    it('should report a missing revision as 404', async () => {
+      await expect(deploymentService.rollbackDeployment('default', 'web', { revision: 9 })).rejects.toMatchObject({
+        statusCode: 404,
+        message: 'Revision 9 not found for deployment web',
+      });
+      expect(appsV1Api.patchNamespacedDeployment).not.toHaveBeenCalled();
+    });
+
+    it('should not patch when rolling back to the current revision', async () => {
+      await deploymentService.rollbackDeployment('default', 'web', { revision: 3 });
+
+      expect(appsV1Api.patchNamespacedDeployment).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ observedGeneration: 2 }, 'Progressing', 'Waiting for deployment spec update to be observed'],
+      [
+        { conditions: [{ type: 'Progressing', status: 'False', reason: 'ProgressDeadlineExceeded' }] },
+        'Failed',
+        'Deployment web exceeded its progress deadline',
+      ],
+      [{ updatedReplicas: 1, availableReplicas: 2 }, 'Progressing', '1 out of 3 new replicas have been updated'],
+      [{ replicas: 4 }, 'Progressing', '1 old replicas are pending termination'],
+      [{ availableReplicas: 2 }, 'Progressing', '2 of 3 updated replicas are available'],
+      [{ replicas: 4, updatedReplicas: 4, availableReplicas: 2 }, 'Progressing', '2 of 4 updated replicas are available'],
+      [{}, 'Complete', 'Deployment successfully rolled out'],
+    ])('should derive the rollout status from %j', async (status, state, message) => {
+      appsV1Api.readNamespacedDeployment.mockResolvedValue({ body: deployment(status) });
+
+      const response = await deploymentService.getDeployment('default', 'web');
+
+      expect(response.rollout).toEqual({ state, message, revision: 3 });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  readNamespacedPod: vi.fn(),
+  listNamespacedEvent: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { diagnosisService } from '../../../src/services/diagnosis.service';
+
+const givenPod = (pod: object, events: object[] = []) => {
+  coreV1Api.readNamespacedPod.mockResolvedValue({ body: { metadata: { name: 'web', namespace: 'default' }, ...pod } });
+  coreV1Api.listNamespacedEvent.mockResolvedValue({ body: { items: events, metadata: {} } });
+};
+
+describe('DiagnosisService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should explain an unschedulable pod', async () => {
+    givenPod(
+      {
+        spec: { containers: [{ name: 'web', image: 'nginx' }] },
+        status: {
+          phase: 'Pending',
+          conditions: [{ type: 'PodScheduled', status: 'False', reason: 'Unschedulable', message: "0/3 nodes are available: 3 node(s) didn't match Pod's node affinity/selector." }],
+        },
+      },
+      [
+        {
+          metadata: { name: 'web.1', namespace: 'default' },
+          involvedObject: { kind: 'Pod', name: 'web' },
+          type: 'Warning',
+          reason: 'FailedScheduling',
+          message: '0/3 nodes are available',
+          count: 4,
+          lastTimestamp: new Date('2026-01-01T00:00:00Z'),
+        },
+      ],
+    );
+
+    const diagnosis = await diagnosisService.diagnosePod('default', 'web');
+
+    expect(diagnosis.healthy).toBe(false);
+    expect(diagnosis.summary).toBe("Pod cannot be scheduled: 0/3 nodes are available: 3 node(s) didn't match Pod's node affinity/selector.");
+    expect(diagnosis.findings.map((f) => f.source)).toEqual(['scheduling', 'event']);
+    expect(diagnosis.findings[1].message).toBe('FailedScheduling: 0/3 nodes are available (x4)');
+    expect(diagnosis.events).toHaveLength(1);
+  });
+
+  it('should explain image pull failures and crash loops per container', async () => {
+    givenPod({
+      spec: {
+        nodeName: 'agent-1',
+        containers: [
+          { name: 'app', image: 'registry.example.com/app:missing' },
+          { name: 'worker', image: 'app:1.0' },
+        ],
+      },
+      status: {
+        phase: 'Pending',
+        containerStatuses: [
+          { name: 'worker', image: 'app:1.0', imageID: '', ready: false, restartCount: 5, state: { waiting: { reason: 'CrashLoopBackOff' } }, lastState: { terminated: { exitCode: 137, reason: 'OOMKilled' } } },
+          { name: 'app', image: 'registry.example.com/app:missing', imageID: '', ready: false, restartCount: 0, state: { waiting: { reason: 'ImagePullBackOff', message: 'Back-off pulling image' } } },
+        ],
+      },
+    });
+
+    const diagnosis = await diagnosisService.diagnosePod('default', 'web');
+
+    expect(diagnosis.findings).toEqual([
+      expect.objectContaining({ source: 'container', container: 'app', reason: 'ImagePullBackOff', message: expect.stringContaining('cannot pull image "registry.example.com/app:missing": Back-off pulling image') }),
+      expect.objectContaining({ container: 'worker', reason: 'CrashLoopBackOff', message: expect.stringContaining('keeps crashing (5 restarts); last exit code 137 (OOMKilled)') }),
+    ]);
+    expect(diagnosis.summary).toContain('Container "app" cannot pull image');
+  });
+
+  it('should report failed init containers and not-ready containers', async () => {
+    givenPod({
+      spec: {
+        nodeName: 'agent-1',
+        initContainers: [{ name: 'migrate', image: 'app:1.0' }],
+        containers: [{ name: 'app', image: 'app:1.0', readinessProbe: { httpGet: { path: '/ready', port: 8080 } } }],
+      },
+      status: {
+        phase: 'Running',
+        initContainerStatuses: [{ name: 'migrate', image: 'app:1.0', imageID: '', ready: false, restartCount: 0, state: { terminated: { exitCode: 1, reason: 'Error' } } }],
+        containerStatuses: [{ name: 'app', image: 'app:1.0', imageID: '', ready: false, restartCount: 0, state: { running: {} } }],
+      },
+    });
+
+    const diagnosis = await diagnosisService.diagnosePod('default', 'web');
+
+    expect(diagnosis.findings.map((f) => f.message)).toEqual([
+      'Init container "migrate" failed; last exit code 1',
+      'Container "app" is running but its readiness probe is not passing',
+    ]);
+  });
+
+  it('should report a healthy pod', async () => {
+    givenPod({
+      spec: { nodeName: 'agent-1', containers: [{ name: 'web', image: 'nginx' }] },
+      status: {
+        phase: 'Running',
+        conditions: [{ type: 'PodScheduled', status: 'True' }],
+        containerStatuses: [{ name: 'web', image: 'nginx', imageID: '', ready: true, restartCount: 0, state: { running: {} } }],
+      },
+    });
+
+    const diagnosis = await diagnosisService.diagnosePod('default', 'web');
+
+    expect(diagnosis).toMatchObject({ healthy: true, summary: 'Pod is running and all containers are ready', findings: [] });
+  });
+
+  it('should report evicted pods', async () => {
+    givenPod({
+      spec: { nodeName: 'agent-1', containers: [{ name: 'web', image: 'nginx' }] },
+      status: { phase: 'Failed', reason: 'Evicted', message: 'The node was low on resource: memory.' },
+    });
+
+    const diagnosis = await diagnosisService.diagnosePod('default', 'web');
+
+    expect(diagnosis.summary).toBe('Pod Evicted: The node was low on resource: memory.');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  listNamespacedEvent: vi.fn(),
+  listEventForAllNamespaces: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, kc: {} }));
+
+import { eventService } from '../../../src/services/event.service';
+
+const event = (name: string, lastTimestamp: string, extra: object = {}) => ({
+  metadata: { name, namespace: 'default' },
+  involvedObject: { kind: 'Pod', name: 'web', namespace: 'default', uid: 'abc-123' },
+  type: 'Warning',
+  reason: 'FailedScheduling',
+  message: '0/3 nodes are available',
+  lastTimestamp: new Date(lastTimestamp),
+  source: { component: 'default-scheduler' },
+  ...extra,
+});
+
+describe('EventService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.listNamespacedEvent.mockResolvedValue({ body: { items: [], metadata: {} } });
+    coreV1Api.listEventForAllNamespaces.mockResolvedValue({ body: { items: [], metadata: {} } });
+  });
+
+  it('should translate filters into field selectors combined with the caller selector', async () => {
+    await eventService.listEvents('default', { kind: 'Pod', name: 'web', type: 'Warning' }, { fieldSelector: 'reason=BackOff', limit: 50 });
+
+    const [namespace, , , , fieldSelector, , limit] = coreV1Api.listNamespacedEvent.mock.calls[0];
+    expect(namespace).toBe('default');
+    expect(fieldSelector).toBe('reason=BackOff,involvedObject.kind=Pod,involvedObject.name=web,type=Warning');
+    expect(limit).toBe(50);
+  });
+
+  it('should list across namespaces without a field selector when unfiltered', async () => {
+    await eventService.listEvents();
+
+    expect(coreV1Api.listEventForAllNamespaces.mock.calls[0][2]).toBeUndefined();
+  });
+
+  it('should return pod events oldest first', async () => {
+    coreV1Api.listNamespacedEvent.mockResolvedValue({
+      body: { items: [event('b', '2026-01-01T00:05:00Z'), event('a', '2026-01-01T00:01:00Z', { type: 'Normal', reason: 'Scheduled' })] },
+    });
+
+    const events = await eventService.listPodEvents('default', 'web');
+
+    expect(events.map((e) => e.name)).toEqual(['a', 'b']);
+    expect(coreV1Api.listNamespacedEvent.mock.calls[0][4]).toBe('involvedObject.kind=Pod,involvedObject.name=web');
+  });
+
+  it('should fall back to eventTime and series for events.k8s.io events', () => {
+    const eventTime = new Date('2026-01-01T00:00:00Z');
+    const lastObservedTime = new Date('2026-01-01T00:10:00Z');
+
+    const response = eventService.mapEventToResponse({
+      metadata: { name: 'web.1', namespace: 'default' },
+      involvedObject: { kind: 'Pod', name: 'web' },
+      type: 'Warning',
+      reason: 'BackOff',
+      eventTime,
+      series: { count: 12, lastObservedTime },
+      reportingComponent: 'kubelet',
+    } as any);
+
+    expect(response).toMatchObject({ count: 12, firstTimestamp: eventTime, lastTimestamp: lastObservedTime, source: 'kubelet' });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as k8s from '@kubernetes/client-node';
+
+const coreV1Api = vi.hoisted(() => ({
+  readNamespacedPod: vi.fn(),
+  listNamespacedPod: vi.fn(),
+  listPodForAllNamespaces: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { metricsService } from '../../../src/services/metrics.service';
+
+const pod = {
+  metadata: { name: 'web', namespace: 'default' },
+  spec: {
+    containers: [
+      { name: 'app', image: 'app:1.0', resources: { requests: { cpu: '250m', memory: '128Mi' }, limits: { cpu: '1', memory: '256Mi' } } },
+      { name: 'shipper', image: 'fluent-bit:3', resources: { requests: { cpu: '50m' } } },
+    ],
+  },
+};
+
+const sample = {
+  metadata: { name: 'web', namespace: 'default', creationTimestamp: '2026-01-01T00:00:00Z' },
+  timestamp: '2026-01-01T00:00:00Z',
+  window: '15s',
+  containers: [
+    { name: 'app', usage: { cpu: '125000000n', memory: '64Mi' } },
+    { name: 'shipper', usage: { cpu: '10m', memory: '20000Ki' } },
+  ],
+};
+
+describe('MetricsService', () => {
+  const getPodMetrics = vi.spyOn(k8s.Metrics.prototype, 'getPodMetrics');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.readNamespacedPod.mockResolvedValue({ body: pod });
+    coreV1Api.listNamespacedPod.mockResolvedValue({ body: { items: [pod], metadata: {} } });
+    coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [pod], metadata: {} } });
+  });
+
+  it('should normalise CPU to millicores and memory to bytes', () => {
+    expect(metricsService.toMillicores('125000000n')).toBe(125);
+    expect(metricsService.toMillicores('250m')).toBe(250);
+    expect(metricsService.toMillicores('1.5')).toBe(1500);
+    expect(metricsService.toMillicores('3500u')).toBe(4);
+    expect(metricsService.toBytes('64Mi')).toBe(67108864);
+    expect(metricsService.toBytes('1G')).toBe(1e9);
+    expect(metricsService.toBytes('1.5Gi')).toBe(1610612736);
+    expect(metricsService.toBytes('20000Ki')).toBe(20480000);
+    expect(() => metricsService.toBytes('lots')).toThrow(
+      expect.objectContaining({ statusCode: 502, message: expect.stringContaining('Invalid resource quantity "lots"') }),
+    );
+  });
+
+  it('should report usage against requests and limits per container and in total', async () => {
+    getPodMetrics.mockResolvedValue(sample as any);
+
+    const metrics = await metricsService.getPodMetrics('default', 'web');
+
+    expect(getPodMetrics).toHaveBeenCalledWith('default', 'web');
+    expect(metrics.containers[0]).toEqual({
+      name: 'app',
+      cpu: { usage: 125, request: 250, limit: 1000, percentOfRequest: 50, percentOfLimit: 12.5 },
+      memory: { usage: 67108864, request: 134217728, limit: 268435456, percentOfRequest: 50, percentOfLimit: 25 },
+    });
+    expect(metrics.containers[1].cpu).toEqual({ usage: 10, request: 50, limit: undefined, percentOfRequest: 20, percentOfLimit: undefined });
+    expect(metrics.containers[1].memory.percentOfRequest).toBeUndefined();
+    // The shipper has no CPU limit, so there is no pod-level CPU limit either
+    expect(metrics.cpu).toEqual({ usage: 135, request: 300, limit: undefined, percentOfRequest: 45, percentOfLimit: undefined });
+    expect(metrics.window).toBe('15s');
+  });
+
+  it('should explain a missing sample for an existing pod', async () => {
+    getPodMetrics.mockRejectedValue(new k8s.HttpError({ statusCode: 404 } as any, {}, 404));
+
+    await expect(metricsService.getPodMetrics('default', 'web')).rejects.toMatchObject({
+      statusCode: 404,
+      message: expect.stringContaining('No metrics for pod web yet'),
+    });
+  });
+
+  it('should list pod metrics across namespaces with the label selector', async () => {
+    getPodMetrics.mockResolvedValue({ items: [sample] } as any);
+
+    const metrics = await metricsService.listPodMetrics({ labelSelector: 'app=web' });
+
+    expect(getPodMetrics).toHaveBeenCalledWith({ labelSelector: 'app=web' });
+    expect(coreV1Api.listPodForAllNamespaces.mock.calls[0][3]).toBe('app=web');
+    expect(metrics[0].memory.request).toBeUndefined();
+    expect(metrics[0].containers[0].memory.percentOfLimit).toBe(25);
+  });
+
+  it('should report a missing metrics API as unavailable', async () => {
+    getPodMetrics.mockRejectedValue(new k8s.HttpError({ statusCode: 404 } as any, {}, 404));
+
+    await expect(metricsService.listPodMetrics({ namespace: 'default' })).rejects.toMatchObject({ statusCode: 503 });
+    expect(getPodMetrics).toHaveBeenCalledWith('default', { labelSelector: undefined });
+  });
+});
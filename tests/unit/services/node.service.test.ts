@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as k8s from '@kubernetes/client-node';
+
+const coreV1Api = vi.hoisted(() => ({
+  readNode: vi.fn(),
+  listNode: vi.fn(),
+  patchNode: vi.fn(),
+  listPodForAllNamespaces: vi.fn(),
+  readNamespacedPod: vi.fn(),
+  createNamespacedPodEviction: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { nodeService } from '../../../src/services/node.service';
+import { drainNodeSchema } from '../../../src/validators/node.validator';
+
+const node = {
+  metadata: {
+    name: 'server-1',
+    labels: { 'node-role.kubernetes.io/control-plane': 'true', 'node-role.kubernetes.io/master': 'true', 'kubernetes.io/os': 'linux' },
+  },
+  spec: { unschedulable: true, taints: [{ key: 'node.kubernetes.io/unschedulable', effect: 'NoSchedule' }] },
+  status: {
+    addresses: [{ type: 'InternalIP', address: '10.0.0.10' }, { type: 'Hostname', address: 'server-1' }],
+    capacity: { cpu: '4', memory: '8039420Ki', pods: '110', 'ephemeral-storage': '30Gi' },
+    allocatable: { cpu: '3500m', memory: '7937020Ki', pods: '110' },
+    conditions: [{ type: 'Ready', status: 'True', reason: 'KubeletReady' }],
+    nodeInfo: {
+      kubeletVersion: 'v1.30.4+k3s1',
+      containerRuntimeVersion: 'containerd://1.7.20-k3s1',
+      osImage: 'Ubuntu 24.04 LTS',
+      operatingSystem: 'linux',
+      architecture: 'arm64',
+      kernelVersion: '6.8.0',
+    },
+  },
+};
+
+const pod = (name: string, extra: { owner?: string; annotations?: object; emptyDir?: boolean; phase?: string } = { owner: 'ReplicaSet' }) => ({
+  metadata: {
+    name,
+    namespace: 'default',
+    uid: `${name}-uid`,
+    annotations: extra.annotations,
+    ownerReferences: extra.owner ? [{ kind: extra.owner, name: 'owner', controller: true }] : undefined,
+  },
+  spec: { nodeName: 'server-1', volumes: extra.emptyDir ? [{ name: 'cache', emptyDir: {} }] : [] },
+  status: { phase: extra.phase ?? 'Running' },
+});
+
+const notFound = () => new k8s.HttpError({ statusCode: 404 } as any, {}, 404);
+const tooManyRequests = () =>
+  new k8s.HttpError({ statusCode: 429 } as any, { message: 'Cannot evict pod as it would violate the pod\'s disruption budget.' }, 429);
+
+const drain = (input: object = {}) => drainNodeSchema.parse(input);
+
+describe('NodeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.readNode.mockResolvedValue({ body: node });
+    coreV1Api.patchNode.mockResolvedValue({ body: node });
+    coreV1Api.readNamespacedPod.mockRejectedValue(notFound());
+    coreV1Api.createNamespacedPodEviction.mockResolvedValue({ body: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('mapNodeToResponse', () => {
+    it('should report roles, versions, resources and cordon state', () => {
+      const response = nodeService.mapNodeToResponse(node as any, 7);
+
+      expect(response.roles).toEqual(['control-plane', 'master']);
+      expect(response.status).toBe('Ready,SchedulingDisabled');
+      expect(response.internalIP).toBe('10.0.0.10');
+      expect(response.k3sVersion).toBe('v1.30.4+k3s1');
+      expect(response.architecture).toBe('arm64');
+      expect(response.capacity).toEqual({ cpu: 4000, memory: 8232366080, pods: 110, ephemeralStorage: 32212254720 });
+      expect(response.allocatable.cpu).toBe(3500);
+      expect(response.podCount).toBe(7);
+    });
+
+    it('should default to the worker role and leave k3sVersion unset elsewhere', () => {
+      const response = nodeService.mapNodeToResponse({
+        metadata: { name: 'agent-1', labels: {} },
+        status: { nodeInfo: { ...node.status.nodeInfo, kubeletVersion: 'v1.30.4' }, conditions: [{ type: 'Ready', status: 'False' }] },
+      } as any);
+
+      expect(response.roles).toEqual(['worker']);
+      expect(response.status).toBe('NotReady');
+      expect(response.k3sVersion).toBeUndefined();
+    });
+  });
+
+  describe('getNode', () => {
+    it('should count the non-terminated pods on the node', async () => {
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [pod('a'), pod('b')] } });
+
+      const response = await nodeService.getNode('server-1');
+
+      expect(coreV1Api.listPodForAllNamespaces.mock.calls[0][2]).toBe('status.phase!=Succeeded,status.phase!=Failed,spec.nodeName=server-1');
+      expect(response.podCount).toBe(2);
+    });
+  });
+
+  describe('cordonNode', () => {
+    it('should merge-patch spec.unschedulable', async () => {
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [] } });
+
+      await nodeService.cordonNode('server-1');
+
+      const [name, body, , , , , , options] = coreV1Api.patchNode.mock.calls[0];
+      expect(name).toBe('server-1');
+      expect(body).toEqual({ spec: { unschedulable: true } });
+      expect(options.headers['Content-Type']).toBe('application/merge-patch+json');
+    });
+  });
+
+  describe('drainNode', () => {
+    it('should cordon, evict and wait for controller-managed pods', async () => {
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({
+        body: { items: [pod('web'), pod('svclb', { owner: 'DaemonSet' }), pod('static', { annotations: { 'kubernetes.io/config.mirror': 'x' } })] },
+      });
+      const onProgress = vi.fn();
+
+      const result = await nodeService.drainNode('server-1', drain({ gracePeriodSeconds: 10 }), onProgress);
+
+      expect(coreV1Api.patchNode.mock.calls[0][1]).toEqual({ spec: { unschedulable: true } });
+      expect(coreV1Api.createNamespacedPodEviction).toHaveBeenCalledTimes(1);
+      const [name, namespace, eviction] = coreV1Api.createNamespacedPodEviction.mock.calls[0];
+      expect([name, namespace]).toEqual(['web', 'default']);
+      expect(eviction.deleteOptions).toEqual({ gracePeriodSeconds: 10 });
+      expect(result.outcome).toBe('Drained');
+      expect(result.remaining).toBe(0);
+      expect(result.pods.map((p) => [p.name, p.status])).toEqual([
+        ['svclb', 'skipped'],
+        ['static', 'skipped'],
+        ['web', 'deleted'],
+      ]);
+      expect(onProgress.mock.calls.map(([p]) => `${p.name}:${p.status}`)).toContain('web:evicted');
+    });
+
+    it('should refuse to drain before cordoning when pods would be lost', async () => {
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({
+        body: { items: [pod('bare', {}), pod('cache', { owner: 'ReplicaSet', emptyDir: true })] },
+      });
+
+      await expect(nodeService.drainNode('server-1', drain())).rejects.toMatchObject({
+        statusCode: 409,
+        message: expect.stringMatching(/default\/bare.*default\/cache/),
+      });
+      expect(coreV1Api.patchNode).not.toHaveBeenCalled();
+      expect(coreV1Api.createNamespacedPodEviction).not.toHaveBeenCalled();
+    });
+
+    it('should delete finished pods without a controller without requiring force', async () => {
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({
+        body: { items: [pod('one-off', { phase: 'Succeeded', emptyDir: true }), pod('crashed', { phase: 'Failed' })] },
+      });
+
+      const result = await nodeService.drainNode('server-1', drain());
+
+      expect(coreV1Api.createNamespacedPodEviction).toHaveBeenCalledTimes(2);
+      expect(result.outcome).toBe('Drained');
+    });
+
+    it('should retry a failed check for an evicted pod on the next poll', async () => {
+      vi.useFakeTimers();
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [pod('web')] } });
+      coreV1Api.readNamespacedPod.mockRejectedValueOnce(new Error('connect ECONNRESET'));
+      const onProgress = vi.fn();
+
+      const promise = nodeService.drainNode('server-1', drain(), onProgress);
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await promise;
+
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'web', status: 'evicted', message: expect.stringContaining('ECONNRESET') }),
+      );
+      expect(result.outcome).toBe('Drained');
+      expect(result.pods[0].status).toBe('deleted');
+    });
+
+    it('should retry evictions refused by a PodDisruptionBudget', async () => {
+      vi.useFakeTimers();
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [pod('db-0', { owner: 'StatefulSet' })] } });
+      coreV1Api.createNamespacedPodEviction.mockRejectedValueOnce(tooManyRequests());
+      const onProgress = vi.fn();
+
+      const promise = nodeService.drainNode('server-1', drain(), onProgress);
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await promise;
+
+      expect(coreV1Api.createNamespacedPodEviction).toHaveBeenCalledTimes(2);
+      expect(onProgress.mock.calls.map(([p]) => p.status)).toEqual(['pending', 'blocked', 'evicted', 'deleted']);
+      expect(result.outcome).toBe('Drained');
+    });
+
+    it('should time out while a PodDisruptionBudget keeps blocking', async () => {
+      vi.useFakeTimers();
+      coreV1Api.listPodForAllNamespaces.mockResolvedValue({ body: { items: [pod('db-0', { owner: 'StatefulSet' })] } });
+      coreV1Api.createNamespacedPodEviction.mockRejectedValue(tooManyRequests());
+
+      const promise = nodeService.drainNode('server-1', drain({ timeoutSeconds: 3 }));
+      await vi.advanceTimersByTimeAsync(3000);
+      const result = await promise;
+
+      expect(result.outcome).toBe('Timeout');
+      expect(result.remaining).toBe(1);
+      expect(result.pods[0]).toMatchObject({ status: 'blocked', message: expect.stringContaining('disruption budget') });
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as k8s from '@kubernetes/client-node';
+
+const { coreV1Api } = vi.hoisted(() => ({
+  coreV1Api: { createNamespacedPod: vi.fn(), readNamespacedPod: vi.fn() },
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { podService } from '../../../src/services/pod.service';
+import { resetConfig } from '../../../src/config/index';
+
+describe('PodService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.createNamespacedPod.mockImplementation(async (_namespace, pod) => ({ body: pod }));
+  });
+
+  describe('createPod', () => {
+    it('should build a single container from the image shorthand', async () => {
+      await podService.createPod({
+        name: 'web',
+        image: 'nginx',
+        configMapVolumes: [{ name: 'app-config', mountPath: '/etc/app' }],
+      });
+
+      const pod = coreV1Api.createNamespacedPod.mock.calls[0][1];
+      expect(pod.metadata.annotations).toBeUndefined();
+      expect(pod.spec.initContainers).toBeUndefined();
+      expect(pod.spec.containers).toHaveLength(1);
+      expect(pod.spec.containers[0]).toMatchObject({
+        name: 'web',
+        image: 'nginx',
+        volumeMounts: [{ name: 'configmap-0', mountPath: '/etc/app', readOnly: true }],
+      });
+    });
+
+    it('should build init containers and sidecars with their own mounts', async () => {
+      await podService.createPod({
+        name: 'web',
+        namespace: 'apps',
+        volumes: [{ name: 'logs', emptyDir: {} }],
+        secretVolumes: [{ name: 'tls', mountPath: '/etc/tls' }],
+        initContainers: [{ name: 'migrate', image: 'app:1.0', command: ['./migrate'] }],
+        containers: [
+          { name: 'app', image: 'app:1.0', ports: [{ containerPort: 8080, protocol: 'TCP' }], volumeMounts: [{ name: 'logs', mountPath: '/var/log/app' }] },
+          { name: 'shipper', image: 'fluent-bit:3' },
+        ],
+      });
+
+      const [namespace, pod] = coreV1Api.createNamespacedPod.mock.calls[0];
+      expect(namespace).toBe('apps');
+      expect(pod.metadata.annotations).toEqual({ 'kubectl.kubernetes.io/default-container': 'app' });
+      expect(pod.spec.initContainers).toEqual([
+        expect.objectContaining({ name: 'migrate', command: ['./migrate'], volumeMounts: undefined }),
+      ]);
+      expect(pod.spec.containers[0].ports).toEqual([{ containerPort: 8080, protocol: 'TCP' }]);
+      expect(pod.spec.containers[0].volumeMounts).toEqual([
+        { name: 'logs', mountPath: '/var/log/app' },
+        { name: 'secret-0', mountPath: '/etc/tls', readOnly: true },
+      ]);
+      expect(pod.spec.containers[1].volumeMounts).toEqual([{ name: 'secret-0', mountPath: '/etc/tls', readOnly: true }]);
+    });
+    it('should expand scheduling shorthands into the pod spec', async () => {
+      await podService.createPod({
+        name: 'web',
+        namespace: 'default',
+        image: 'nginx',
+        nodeSelector: { 'kubernetes.io/arch': 'arm64' },
+        tolerations: [{ key: 'dedicated', operator: 'Equal', value: 'web', effect: 'NoSchedule' }],
+        affinity: {
+          nodes: [
+            { key: 'node-role.kubernetes.io/build', operator: 'DoesNotExist' },
+            { key: 'disk', operator: 'In', values: ['ssd'] },
+            { key: 'zone', operator: 'In', values: ['a'], weight: 20 },
+          ],
+        },
+        antiAffinity: [{ matchLabels: { app: 'web' }, topologyKey: 'kubernetes.io/hostname', weight: 100 }],
+        priorityClassName: 'high-priority',
+        topologySpreadConstraints: [{ maxSkew: 1, topologyKey: 'topology.kubernetes.io/zone', whenUnsatisfiable: 'ScheduleAnyway' }],
+      });
+
+      const { spec } = coreV1Api.createNamespacedPod.mock.calls[0][1];
+      expect(spec.nodeSelector).toEqual({ 'kubernetes.io/arch': 'arm64' });
+      expect(spec.priorityClassName).toBe('high-priority');
+      expect(spec.affinity.nodeAffinity).toEqual({
+        requiredDuringSchedulingIgnoredDuringExecution: {
+          nodeSelectorTerms: [
+            {
+              matchExpressions: [
+                { key: 'node-role.kubernetes.io/build', operator: 'DoesNotExist' },
+                { key: 'disk', operator: 'In', values: ['ssd'] },
+              ],
+            },
+          ],
+        },
+        preferredDuringSchedulingIgnoredDuringExecution: [
+          { weight: 20, preference: { matchExpressions: [{ key: 'zone', operator: 'In', values: ['a'] }] } },
+        ],
+      });
+      expect(spec.affinity.podAffinity).toBeUndefined();
+      expect(spec.affinity.podAntiAffinity).toEqual({
+        preferredDuringSchedulingIgnoredDuringExecution: [
+          { weight: 100, podAffinityTerm: { labelSelector: { matchLabels: { app: 'web' } }, topologyKey: 'kubernetes.io/hostname' } },
+        ],
+      });
+      expect(spec.topologySpreadConstraints[0].labelSelector).toEqual({ matchLabels: { app: 'web' } });
+    });
+
+    it('should apply the restricted security profile by default', async () => {
+      await podService.createPod({
+        name: 'web',
+        namespace: 'default',
+        image: 'nginx',
+        securityContext: { fsGroup: 2000 },
+        containerSecurityContext: { readOnlyRootFilesystem: true, capabilities: { add: ['NET_BIND_SERVICE'] } },
+      });
+
+      const { spec } = coreV1Api.createNamespacedPod.mock.calls[0][1];
+      expect(spec.securityContext).toEqual({ runAsNonRoot: true, seccompProfile: { type: 'RuntimeDefault' }, fsGroup: 2000 });
+      expect(spec.containers[0].securityContext).toEqual({
+        allowPrivilegeEscalation: false,
+        readOnlyRootFilesystem: true,
+        capabilities: { add: ['NET_BIND_SERVICE'], drop: ['ALL'] },
+      });
+    });
+
+    it('should let explicit settings override the restricted defaults', async () => {
+      await podService.createPod({
+        name: 'web',
+        namespace: 'default',
+        initContainers: [{ name: 'chown', image: 'busybox', securityContext: { runAsUser: 0, capabilities: { drop: [] } } }],
+        containers: [{ name: 'app', image: 'app:1.0', securityContext: { privileged: true } }],
+      });
+
+      const { spec } = coreV1Api.createNamespacedPod.mock.calls[0][1];
+      expect(spec.initContainers[0].securityContext).toEqual({
+        allowPrivilegeEscalation: false,
+        runAsNonRoot: false,
+        runAsUser: 0,
+        capabilities: { drop: [] },
+      });
+      expect(spec.containers[0].securityContext).toMatchObject({ privileged: true, allowPrivilegeEscalation: undefined });
+    });
+
+    it('should leave security contexts untouched when a request opts out', async () => {
+      await podService.createPod({ name: 'web', namespace: 'default', image: 'nginx', securityProfile: 'none' });
+
+      const { spec } = coreV1Api.createNamespacedPod.mock.calls[0][1];
+      expect(spec.securityContext).toBeUndefined();
+      expect(spec.containers[0].securityContext).toBeUndefined();
+    });
+
+    it('should follow POD_SECURITY_PROFILE when the request does not choose', async () => {
+      vi.stubEnv('POD_SECURITY_PROFILE', 'none');
+      resetConfig();
+      try {
+        await podService.createPod({ name: 'web', namespace: 'default', image: 'nginx' });
+        await podService.createPod({ name: 'web', namespace: 'default', image: 'nginx', securityProfile: 'restricted' });
+      } finally {
+        vi.unstubAllEnvs();
+        resetConfig();
+      }
+
+      const [[, relaxed], [, restricted]] = coreV1Api.createNamespacedPod.mock.calls;
+      expect(relaxed.spec.securityContext).toBeUndefined();
+      expect(restricted.spec.securityContext.runAsNonRoot).toBe(true);
+    });
+
+    it('should not set affinity without rules', async () => {
+      await podService.createPod({ name: 'web', namespace: 'default', image: 'nginx' });
+
+      expect(coreV1Api.createNamespacedPod.mock.calls[0][1].spec.affinity).toBeUndefined();
+    });
+  });
+
+  describe('mapPodToResponse', () => {
+    it('should report per-container probe configuration', () => {
+      const response = podService.mapPodToResponse({
+        metadata: { name: 'web', namespace: 'default' },
+        spec: {
+          containers: [
+            {
+              name: 'web',
+              image: 'nginx',
+              livenessProbe: { httpGet: { path: '/healthz', port: 8080 }, periodSeconds: 10 },
+              readinessProbe: { tcpSocket: { port: 'http' } },
+            },
+            { name: 'sidecar', image: 'busybox' },
+          ],
+        },
+      });
+
+      expect(response.containers[0].probes).toEqual({
+        liveness: {
+          httpGet: { path: '/healthz', port: 8080 },
+          periodSeconds: 10,
+        },
+        readiness: { tcpSocket: { port: 'http' } },
+      });
+      expect(response.containers[1].probes).toBeUndefined();
+    });
+
+    it('should match container statuses by name rather than position', () => {
+      const startedAt = new Date('2026-01-01T00:00:00Z');
+      const finishedAt = new Date('2026-01-01T00:05:00Z');
+      const response = podService.mapPodToResponse({
+        metadata: { name: 'api', namespace: 'default' },
+        spec: {
+          initContainers: [{ name: 'migrate', image: 'api:1.4' }],
+          containers: [
+            { name: 'api', image: 'api:1.4' },
+            { name: 'shipper', image: 'fluent-bit:3' },
+          ],
+        },
+        status: {
+          initContainerStatuses: [
+            {
+              name: 'migrate',
+              image: 'api:1.4',
+              imageID: 'docker.io/library/api@sha256:abc',
+              ready: false,
+              restartCount: 0,
+              state: { terminated: { exitCode: 0, reason: 'Completed', startedAt, finishedAt } },
+            },
+          ],
+          containerStatuses: [
+            { name: 'shipper', image: 'fluent-bit:3', imageID: '', ready: true, restartCount: 0, state: { running: { startedAt } } },
+            {
+              name: 'api',
+              image: 'api:1.4',
+              imageID: 'docker.io/library/api@sha256:abc',
+              ready: false,
+              restartCount: 3,
+              state: { waiting: { reason: 'CrashLoopBackOff', message: 'back-off 40s' } },
+              lastState: { terminated: { exitCode: 137, reason: 'OOMKilled', startedAt, finishedAt } },
+            },
+          ],
+        },
+      });
+
+      expect(response.containers[0]).toMatchObject({
+        name: 'api',
+        imageID: 'docker.io/library/api@sha256:abc',
+        ready: false,
+        restartCount: 3,
+        state: { state: 'waiting', reason: 'CrashLoopBackOff', message: 'back-off 40s' },
+        lastState: { state: 'terminated', exitCode: 137, reason: 'OOMKilled', startedAt, finishedAt },
+      });
+      expect(response.containers[1]).toMatchObject({ name: 'shipper', ready: true, state: { state: 'running', startedAt } });
+      expect(response.containers[1].imageID).toBeUndefined();
+      expect(response.initContainers).toEqual([
+        expect.objectContaining({ name: 'migrate', state: expect.objectContaining({ state: 'terminated', exitCode: 0, reason: 'Completed' }) }),
+      ]);
+    });
+
+    it('should report the node and an unschedulable status', () => {
+      const response = podService.mapPodToResponse({
+        metadata: { name: 'web' },
+        spec: { containers: [{ name: 'web', image: 'nginx' }] },
+        status: {
+          phase: 'Pending',
+          conditions: [
+            { type: 'PodScheduled', status: 'False', reason: 'Unschedulable', message: "0/3 nodes are available: 3 node(s) didn't match Pod's node affinity/selector." },
+          ],
+        },
+      });
+
+      expect(response.status).toBe('Unschedulable');
+      expect(response.nodeName).toBeUndefined();
+      expect(response.conditions).toEqual([
+        expect.objectContaining({ type: 'PodScheduled', status: 'False', reason: 'Unschedulable' }),
+      ]);
+    });
+
+    it('should leave status fields unset before the kubelet reports them', () => {
+      const response = podService.mapPodToResponse({
+        metadata: { name: 'web' },
+        spec: { containers: [{ name: 'web', image: 'nginx' }] },
+        status: { phase: 'Pending' },
+      });
+
+      expect(response.containers[0]).toMatchObject({ ready: false, restartCount: 0, state: undefined, lastState: undefined });
+      expect(response.initContainers).toBeUndefined();
+    });
+  });
+
+  describe('exec', () => {
+    const exec = vi.spyOn(k8s.Exec.prototype, 'exec');
+    const socket = { close: vi.fn() };
+
+    const withEnv = async (env: Record<string, string>, run: () => Promise<unknown>) => {
+      Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+      resetConfig();
+      try {
+        return await run();
+      } finally {
+        vi.unstubAllEnvs();
+        resetConfig();
+      }
+    };
+
+    beforeEach(() => {
+      coreV1Api.readNamespacedPod.mockResolvedValue({
+        body: {
+          metadata: { annotations: { 'kubectl.kubernetes.io/default-container': 'app' } },
+          spec: { containers: [{ name: 'sidecar' }, { name: 'app' }] },
+        },
+      });
+      exec.mockImplementation(async (_ns, _name, _container, _command, stdout, stderr, _stdin, _tty, callback) => {
+        stdout?.write('total 0\n');
+        stderr?.write('warning\n');
+        setTimeout(() =>
+          callback?.({
+            status: 'Failure',
+            details: { causes: [{ reason: 'ExitCode', message: '2' }] },
+          } as k8s.V1Status),
+        );
+        return socket as any;
+      });
+    });
+
+    it('should run an allowed command in the default container and capture its output', async () => {
+      const result = await podService.execCommand('default', 'web', { command: ['ls', '-la'], timeoutSeconds: 30 });
+
+      const [namespace, name, container, command, , , stdin, tty] = exec.mock.calls[0];
+      expect([namespace, name, container, command, stdin, tty]).toEqual(['default', 'web', 'app', ['ls', '-la'], null, false]);
+      expect(result).toMatchObject({ stdout: 'total 0\n', stderr: 'warning\n', exitCode: 2, status: 'Failure' });
+    });
+
+    it('should reject commands outside EXEC_ALLOWED_COMMANDS', async () => {
+      await expect(
+        podService.execCommand('default', 'web', { command: ['rm', '-rf', '/'], timeoutSeconds: 30 }),
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(exec).not.toHaveBeenCalled();
+    });
+
+    it('should never run shells non-interactively, even when listed', async () => {
+      await withEnv({ EXEC_ALLOWED_COMMANDS: 'sh,/bin/bash', EXEC_INTERACTIVE_SHELLS: 'true' }, async () => {
+        await expect(
+          podService.execCommand('default', 'web', { command: ['sh', '-c', 'cat /etc/shadow'], timeoutSeconds: 30 }),
+        ).rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('non-interactive') });
+        await expect(
+          podService.execCommand('default', 'web', { command: ['/bin/bash'], timeoutSeconds: 30 }),
+        ).rejects.toMatchObject({ statusCode: 403 });
+      });
+      expect(exec).not.toHaveBeenCalled();
+    });
+
+    it('should only open interactive shells when EXEC_INTERACTIVE_SHELLS is enabled', async () => {
+      const streams = { stdout: process.stdout, stderr: process.stderr, stdin: process.stdin } as any;
+      const open = (command: string[]) =>
+        podService.openExecSession('default', 'web', { command, tty: true, cols: 80, rows: 24 }, streams, vi.fn());
+
+      await expect(open(['/bin/sh'])).rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('EXEC_INTERACTIVE_SHELLS') });
+
+      await withEnv({ EXEC_INTERACTIVE_SHELLS: 'true' }, async () => {
+        await expect(open(['/bin/sh', '-c', 'id'])).rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('without arguments') });
+        await expect(open(['/bin/sh'])).resolves.toBe(socket);
+      });
+
+      expect(exec).toHaveBeenCalledTimes(1);
+      const [, , container, command, , stderr, stdin, tty] = exec.mock.calls[0];
+      expect([container, command, stderr, tty]).toEqual(['app', ['/bin/sh'], null, true]);
+      expect(stdin).toBe(streams.stdin);
+    });
+  });
+});
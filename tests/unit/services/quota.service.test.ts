@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  readNamespacedResourceQuota: vi.fn(),
+  replaceNamespacedResourceQuota: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { quotaService } from '../../../src/services/quota.service';
+import { resourceQuotaSchema } from '../../../src/validators/quota.validator';
+
+const quota = {
+  metadata: { name: 'default-quota', namespace: 'team-a', resourceVersion: '42' },
+  spec: { hard: { 'requests.cpu': '2', pods: '10' } },
+  status: { hard: { 'requests.cpu': '2', pods: '10' }, used: { 'requests.cpu': '500m', pods: '3' } },
+};
+
+describe('QuotaService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    coreV1Api.readNamespacedResourceQuota.mockResolvedValue({ body: quota });
+  });
+
+  describe('updateQuota', () => {
+    it('should report the new hard limits before the quota controller has synced', async () => {
+      // The replace response carries the new spec but the previous status
+      coreV1Api.replaceNamespacedResourceQuota.mockImplementation(async (_name: string, _namespace: string, body: any) => ({
+        body,
+      }));
+
+      const response = await quotaService.updateQuota(
+        'team-a',
+        resourceQuotaSchema.parse({ requests: { cpu: '4', memory: '8Gi' }, pods: 20 }),
+      );
+
+      const [name, namespace, body] = coreV1Api.replaceNamespacedResourceQuota.mock.calls[0];
+      expect([name, namespace]).toEqual(['default-quota', 'team-a']);
+      expect(body.metadata.resourceVersion).toBe('42');
+      expect(body.spec.hard).toEqual({ 'requests.cpu': '4', 'requests.memory': '8Gi', pods: '20' });
+      expect(response.usage).toEqual({
+        'requests.cpu': { hard: '4', used: '500m' },
+        'requests.memory': { hard: '8Gi', used: '0' },
+        pods: { hard: '20', used: '3' },
+      });
+    });
+  });
+});
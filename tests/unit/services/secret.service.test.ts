@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  createNamespacedSecret: vi.fn(async (_namespace: string, secret: any) => ({ body: secret })),
+  readNamespacedSecret: vi.fn(),
+  patchNamespacedSecret: vi.fn(),
+  readNamespacedServiceAccount: vi.fn(),
+  patchNamespacedServiceAccount: vi.fn(),
+  deleteNamespacedSecret: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, kc: {} }));
+
+import { secretService } from '../../../src/services/secret.service';
+
+describe('SecretService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return keys and decoded sizes but never values', async () => {
+    const secret = await secretService.createSecret({
+      type: 'Opaque',
+      name: 'db',
+      namespace: 'default',
+      data: { password: 's3cret', user: 'app' },
+    });
+
+    expect(secret).toMatchObject({
+      type: 'Opaque',
+      keys: [
+        { key: 'password', size: 6 },
+        { key: 'user', size: 3 },
+      ],
+    });
+    expect(JSON.stringify(secret)).not.toContain('s3cret');
+  });
+
+  it('should build a dockerconfigjson secret', async () => {
+    await secretService.createSecret({
+      type: 'docker-registry',
+      name: 'regcred',
+      namespace: 'default',
+      server: 'ghcr.io',
+      username: 'bot',
+      password: 'token',
+    });
+
+    const [, secret] = coreV1Api.createNamespacedSecret.mock.calls[0];
+    const config = JSON.parse(Buffer.from(secret.data['.dockerconfigjson'], 'base64').toString());
+    expect(secret.type).toBe('kubernetes.io/dockerconfigjson');
+    expect(config.auths['ghcr.io']).toMatchObject({
+      username: 'bot',
+      password: 'token',
+      auth: Buffer.from('bot:token').toString('base64'),
+    });
+  });
+
+  it('should only rotate keys that already exist', async () => {
+    coreV1Api.readNamespacedSecret.mockResolvedValue({
+      body: { metadata: { name: 'db', resourceVersion: '7' }, data: { password: 'b2xk' } },
+    });
+    coreV1Api.patchNamespacedSecret.mockResolvedValue({ body: { data: { password: 'bmV3' } } });
+
+    await secretService.rotateSecretKey('default', 'db', { key: 'password', value: 'new' });
+    expect(coreV1Api.patchNamespacedSecret.mock.calls[0][2]).toEqual({
+      metadata: { resourceVersion: '7' },
+      data: { password: Buffer.from('new').toString('base64') },
+    });
+
+    await expect(
+      secretService.rotateSecretKey('default', 'db', { key: 'token', value: 'x' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  describe('createRegistryCredential', () => {
+    const input = {
+      name: 'regcred',
+      namespace: 'team-a',
+      server: 'ghcr.io',
+      username: 'bot',
+      password: 'token',
+    };
+
+    it('should leave service accounts alone unless asked', async () => {
+      const result = await secretService.createRegistryCredential({
+        ...input,
+        patchDefaultServiceAccount: false,
+      });
+
+      expect(result.serviceAccount).toBeUndefined();
+      expect(coreV1Api.readNamespacedServiceAccount).not.toHaveBeenCalled();
+    });
+
+    it('should append the secret to the default service account', async () => {
+      coreV1Api.readNamespacedServiceAccount.mockResolvedValue({
+        body: { metadata: { resourceVersion: '3' }, imagePullSecrets: [{ name: 'other' }] },
+      });
+
+      const result = await secretService.createRegistryCredential({
+        ...input,
+        patchDefaultServiceAccount: true,
+      });
+
+      expect(result.serviceAccount).toBe('default');
+      expect(coreV1Api.patchNamespacedServiceAccount).toHaveBeenCalledWith(
+        'default',
+        'team-a',
+        {
+          metadata: { resourceVersion: '3' },
+          imagePullSecrets: [{ name: 'other' }, { name: 'regcred' }],
+        },
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        expect.anything()
+      );
+    });
+
+    it('should not patch when the secret is already referenced', async () => {
+      coreV1Api.readNamespacedServiceAccount.mockResolvedValue({
+        body: { metadata: {}, imagePullSecrets: [{ name: 'regcred' }] },
+      });
+
+      await secretService.createRegistryCredential({ ...input, patchDefaultServiceAccount: true });
+
+      expect(coreV1Api.patchNamespacedServiceAccount).not.toHaveBeenCalled();
+    });
+
+    it('should delete the secret when the service account cannot be patched', async () => {
+      const forbidden = Object.assign(new Error('forbidden'), { statusCode: 403 });
+      coreV1Api.readNamespacedServiceAccount.mockRejectedValue(forbidden);
+
+      await expect(
+        secretService.createRegistryCredential({ ...input, patchDefaultServiceAccount: true }),
+      ).rejects.toBe(forbidden);
+      expect(coreV1Api.deleteNamespacedSecret).toHaveBeenCalledWith('regcred', 'team-a');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const coreV1Api = vi.hoisted(() => ({
+  createNamespacedService: vi.fn(async (_namespace: string, service: any) => ({ body: service })),
+  listNamespacedPod: vi.fn(),
+}));
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api, networkingV1Api: {}, kc: {} }));
+
+import { serviceService } from '../../../src/services/service.service';
+
+const pod = (name: string, ports: object[]) => ({
+  metadata: { name, namespace: 'default', labels: { app: 'web' } },
+  spec: { containers: [{ name: 'web', image: 'nginx', ports }] },
+});
+
+const input = (targetPort: number | string, protocol: 'TCP' | 'UDP' = 'TCP') => ({
+  name: 'web',
+  namespace: 'default',
+  selector: { app: 'web', tier: 'frontend' },
+  ports: [{ port: 80, targetPort, protocol }],
+  type: 'ClusterIP' as const,
+});
+
+describe('ServiceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createService', () => {
+    it('should not look up pods for numeric targetPorts', async () => {
+      const service = await serviceService.createService(input(8080));
+
+      expect(coreV1Api.listNamespacedPod).not.toHaveBeenCalled();
+      expect(service.ports[0].targetPort).toBe(8080);
+    });
+
+    it('should accept a named targetPort declared by every selected pod', async () => {
+      coreV1Api.listNamespacedPod.mockResolvedValue({
+        body: { items: [pod('web-1', [{ name: 'http', containerPort: 8080, protocol: 'TCP' }]), pod('web-2', [{ name: 'http', containerPort: 8081 }])] },
+      });
+
+      const service = await serviceService.createService(input('http'));
+
+      expect(coreV1Api.listNamespacedPod.mock.calls[0][5]).toBe('app=web,tier=frontend');
+      expect(coreV1Api.createNamespacedService.mock.calls[0][1].spec.ports[0].targetPort).toBe('http');
+      expect(service.ports[0].targetPort).toBe('http');
+    });
+
+    it('should reject a named targetPort missing from a selected pod', async () => {
+      coreV1Api.listNamespacedPod.mockResolvedValue({
+        body: { items: [pod('web-1', [{ name: 'http', containerPort: 8080 }]), pod('web-2', [])] },
+      });
+
+      await expect(serviceService.createService(input('http'))).rejects.toMatchObject({
+        statusCode: 400,
+        message: expect.stringContaining('web-2'),
+      });
+      expect(coreV1Api.createNamespacedService).not.toHaveBeenCalled();
+    });
+
+    it('should require the declared port to use the same protocol', async () => {
+      coreV1Api.listNamespacedPod.mockResolvedValue({
+        body: { items: [pod('dns-1', [{ name: 'dns', containerPort: 53, protocol: 'TCP' }])] },
+      });
+
+      await expect(serviceService.createService(input('dns', 'UDP'))).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should not list pods for a Service without a selector', async () => {
+      await expect(serviceService.createService({ ...input('http'), selector: {} })).resolves.toBeDefined();
+
+      expect(coreV1Api.listNamespacedPod).not.toHaveBeenCalled();
+    });
+
+    it('should allow named targetPorts while no pods match the selector', async () => {
+      coreV1Api.listNamespacedPod.mockResolvedValue({ body: { items: [] } });
+
+      await expect(serviceService.createService(input('http'))).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Record API calls against an in-memory fake instead of a cluster
+const api = vi.hoisted(() => {
+  const calls: string[] = [];
+  const record = (name: string, body: (...args: any[]) => any = () => ({})) =>
+    vi.fn(async (...args: any[]) => {
+      calls.push(name);
+      return { body: body(...args) };
+    });
+
+  return {
+    calls,
+    coreV1Api: {
+      createNamespace: record('createNamespace', (ns) => ns),
+      deleteNamespace: record('deleteNamespace'),
+      createNamespacedResourceQuota: record('createNamespacedResourceQuota', (_ns, quota) => quota),
+      deleteNamespacedResourceQuota: record('deleteNamespacedResourceQuota'),
+      createNamespacedServiceAccount: record('createNamespacedServiceAccount'),
+    },
+    networkingV1Api: {
+      createNamespacedNetworkPolicy: record('createNamespacedNetworkPolicy'),
+      deleteNamespacedNetworkPolicy: record('deleteNamespacedNetworkPolicy'),
+    },
+  };
+});
+
+vi.mock('../../../src/config/k8s.config', () => ({
+  coreV1Api: api.coreV1Api,
+  networkingV1Api: api.networkingV1Api,
+  appsV1Api: {},
+  kc: {},
+}));
+
+import { tenantService } from '../../../src/services/tenant.service';
+import { createTenantSchema } from '../../../src/validators/tenant.validator';
+
+describe('TenantService', () => {
+  beforeEach(() => {
+    api.calls.length = 0;
+  });
+
+  it('should provision the namespace and the configured bundle', async () => {
+    const input = createTenantSchema.parse({ name: 'team-a', quota: { pods: 10 } });
+
+    const tenant = await tenantService.createTenant(input);
+
+    expect(api.calls).toEqual([
+      'createNamespace',
+      'createNamespacedResourceQuota',
+      'createNamespacedNetworkPolicy',
+      'createNamespacedServiceAccount',
+    ]);
+    expect(tenant).toMatchObject({
+      name: 'team-a',
+      namespace: { labels: { 'k3s-backend-api/tenant': 'team-a' } },
+      quota: { usage: { pods: { hard: '10', used: '0' } } },
+      networkPolicy: 'default-deny',
+      serviceAccount: 'deployer',
+    });
+    expect(tenant.limits).toBeUndefined();
+  });
+
+  it('should roll back created objects in reverse order when a step fails', async () => {
+    const failure = new Error('service account rejected');
+    api.coreV1Api.createNamespacedServiceAccount.mockRejectedValueOnce(failure);
+    const input = createTenantSchema.parse({ name: 'team-a', quota: { pods: 10 } });
+
+    await expect(tenantService.createTenant(input)).rejects.toBe(failure);
+
+    expect(api.calls.slice(3)).toEqual([
+      'deleteNamespacedNetworkPolicy',
+      'deleteNamespacedResourceQuota',
+      'deleteNamespace',
+    ]);
+  });
+
+  it('should skip the network policy when defaultDeny is none', async () => {
+    const input = createTenantSchema.parse({ name: 'team-a', defaultDeny: 'none' });
+
+    const tenant = await tenantService.createTenant(input);
+
+    expect(api.calls).toEqual(['createNamespace', 'createNamespacedServiceAccount']);
+    expect(tenant.networkPolicy).toBeUndefined();
+  });
+
+  it('should deny egress as well when requested', () => {
+    expect(tenantService.buildDefaultDenyPolicy('ingress-egress').spec).toEqual({
+      podSelector: {},
+      policyTypes: ['Ingress', 'Egress'],
+    });
+  });
+});
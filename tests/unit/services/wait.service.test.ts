@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as k8s from '@kubernetes/client-node';
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api: {}, networkingV1Api: {}, kc: {} }));
+
+import { waitService } from '../../../src/services/wait.service';
+
+type Handler = (type: string, obj: any) => void;
+type Done = (error: unknown) => void;
+
+const ready = (obj: any) => (obj.status?.phase === 'Running' ? { outcome: 'Ready' as const } : undefined);
+
+describe('WaitService', () => {
+  const watch = vi.spyOn(k8s.Watch.prototype, 'watch');
+  const abort = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restart the watch when it expires with 410 Gone', async () => {
+    watch
+      .mockImplementationOnce(async (_path, _query, handler: Handler, done: Done) => {
+        setTimeout(() => {
+          handler('ADDED', { metadata: { name: 'web' }, status: { phase: 'Pending' } });
+          handler('ERROR', { kind: 'Status', code: 410, message: 'too old resource version' });
+          done(null);
+        });
+        return { abort };
+      })
+      .mockImplementationOnce(async (_path, _query, handler: Handler) => {
+        setTimeout(() => handler('ADDED', { metadata: { name: 'web' }, status: { phase: 'Running' } }));
+        return { abort };
+      });
+
+    const { object, result } = await waitService.waitFor('/api/v1/namespaces/default/pods', 'web', 30, ready);
+
+    expect(watch).toHaveBeenCalledTimes(2);
+    expect(result.outcome).toBe('Ready');
+    expect(object?.status.phase).toBe('Running');
+  });
+
+  it('should fail with the status of other watch errors', async () => {
+    watch.mockImplementationOnce(async (_path, _query, handler: Handler) => {
+      setTimeout(() => handler('ERROR', { kind: 'Status', code: 403, message: 'forbidden' }));
+      return { abort };
+    });
+
+    await expect(waitService.waitFor('/api/v1/namespaces/default/pods', 'web', 30, ready)).rejects.toMatchObject({
+      statusCode: 403,
+      message: expect.stringContaining('forbidden'),
+    });
+    expect(abort).toHaveBeenCalled();
+  });
+});
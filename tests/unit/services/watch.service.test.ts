@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as k8s from '@kubernetes/client-node';
+
+vi.mock('../../../src/config/k8s.config', () => ({ coreV1Api: {}, appsV1Api: {}, networkingV1Api: {}, kc: {} }));
+
+import { watchService } from '../../../src/services/watch.service';
+
+type Handler = (type: string, obj: any) => void;
+type Done = (error: unknown) => void;
+
+const namespace = (name: string, resourceVersion: string) => ({ metadata: { name, resourceVersion }, status: { phase: 'Active' } });
+
+describe('WatchService', () => {
+  const watch = vi.spyOn(k8s.Watch.prototype, 'watch');
+  const abort = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restart without a resourceVersion when it has expired', async () => {
+    const handlers: Handler[] = [];
+    watch.mockImplementation(async (_path, _query, handler: Handler) => {
+      handlers.push(handler);
+      return { abort };
+    });
+    const onEvent = vi.fn();
+    const onDone = vi.fn();
+
+    await watchService.watchResource('namespaces', { resourceVersion: '100' } as any, onEvent, onDone);
+    handlers[0]('ERROR', { kind: 'Status', code: 410, message: 'too old resource version: 100 (250)' });
+    await vi.waitFor(() => expect(watch).toHaveBeenCalledTimes(2));
+    handlers[0]('ADDED', namespace('stale', '101'));
+    handlers[1]('ADDED', namespace('team-a', '250'));
+
+    expect(watch.mock.calls[0][1]).toMatchObject({ resourceVersion: '100' });
+    expect(watch.mock.calls[1][1]).not.toHaveProperty('resourceVersion');
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(onEvent.mock.calls.map(([event]) => [event.type, event.code ?? event.object?.name])).toEqual([
+      ['RESET', 410],
+      ['ADDED', 'team-a'],
+    ]);
+    expect(onDone).not.toHaveBeenCalled();
+  });
+
+  it('should resume from the last seen resourceVersion after a normal close', async () => {
+    const callbacks: [Handler, Done][] = [];
+    watch.mockImplementation(async (_path, _query, handler: Handler, done: Done) => {
+      callbacks.push([handler, done]);
+      return { abort };
+    });
+    const onEvent = vi.fn();
+
+    await watchService.watchResource('namespaces', {} as any, onEvent, vi.fn());
+    callbacks[0][0]('MODIFIED', namespace('team-a', '300'));
+    callbacks[0][1](null);
+    await vi.waitFor(() => expect(watch).toHaveBeenCalledTimes(2));
+
+    expect(watch.mock.calls[1][1]).toMatchObject({ resourceVersion: '300' });
+  });
+
+  it('should end the watch on errors a relist cannot fix', async () => {
+    const handlers: Handler[] = [];
+    watch.mockImplementation(async (_path, _query, handler: Handler) => {
+      handlers.push(handler);
+      return { abort };
+    });
+    const onEvent = vi.fn();
+
+    await watchService.watchResource('namespaces', {} as any, onEvent, vi.fn());
+    // Without a resourceVersion a 410 would only repeat after restarting
+    handlers[0]('ERROR', { kind: 'Status', code: 410, message: 'gone' });
+    handlers[0]('ADDED', namespace('team-a', '300'));
+
+    expect(watch).toHaveBeenCalledTimes(1);
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(onEvent.mock.calls.map(([event]) => [event.type, event.code])).toEqual([['ERROR', 410]]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  listQuerySchema,
+  queryBooleanSchema,
+  readQuerySchema,
+  waitQuerySchema,
+} from '../../../src/validators/common.validator';
+
+describe('Common Validators', () => {
+  describe('queryBooleanSchema', () => {
+    it('should map "true" and "false" to booleans', () => {
+      expect(queryBooleanSchema.parse('true')).toBe(true);
+      expect(queryBooleanSchema.parse('false')).toBe(false);
+    });
+
+    it('should reject other values', () => {
+      expect(() => queryBooleanSchema.parse('1')).toThrow();
+    });
+  });
+
+  describe('readQuerySchema', () => {
+    it('should read from the cache by default', () => {
+      expect(readQuerySchema.parse({})).toEqual({ consistent: false });
+    });
+
+    it('should ignore unrelated query params', () => {
+      expect(readQuerySchema.parse({ namespace: 'default', consistent: 'true' })).toEqual({
+        consistent: true,
+      });
+    });
+  });
+
+  describe('listQuerySchema', () => {
+    it('should default limit to DEFAULT_PAGE_SIZE', () => {
+      expect(listQuerySchema.parse({})).toEqual({ consistent: false, limit: 100 });
+    });
+
+    it('should clamp limit to MAX_PAGE_SIZE', () => {
+      expect(listQuerySchema.parse({ limit: '5000' }).limit).toBe(1000);
+    });
+
+    it('should pass the continue token through', () => {
+      expect(listQuerySchema.parse({ limit: '10', continue: 'abc' })).toEqual({
+        consistent: false,
+        limit: 10,
+        continue: 'abc',
+      });
+    });
+
+    it('should reject a zero limit', () => {
+      expect(() => listQuerySchema.parse({ limit: '0' })).toThrow();
+    });
+
+    it('should pass valid selectors through', () => {
+      expect(
+        listQuerySchema.parse({ labelSelector: 'app=web', fieldSelector: 'status.phase=Running' })
+      ).toMatchObject({ labelSelector: 'app=web', fieldSelector: 'status.phase=Running' });
+    });
+
+    it('should reject malformed selectors', () => {
+      expect(() => listQuerySchema.parse({ labelSelector: 'app in web' })).toThrow();
+      expect(() => listQuerySchema.parse({ fieldSelector: 'status.phase' })).toThrow();
+    });
+  });
+
+  describe('waitQuerySchema', () => {
+    it('should not wait by default', () => {
+      expect(waitQuerySchema.parse({})).toEqual({ wait: false, timeoutSeconds: 120 });
+    });
+
+    it('should coerce timeoutSeconds', () => {
+      expect(waitQuerySchema.parse({ wait: 'true', timeoutSeconds: '30' })).toEqual({
+        wait: true,
+        timeoutSeconds: 30,
+      });
+    });
+
+    it('should reject timeouts above 600 seconds', () => {
+      expect(() => waitQuerySchema.parse({ wait: 'true', timeoutSeconds: '601' })).toThrow();
+    });
+  });
+});
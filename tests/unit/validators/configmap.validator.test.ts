@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createConfigMapSchema,
+  updateConfigMapSchema,
+} from '../../../src/validators/configmap.validator';
+
+describe('ConfigMap Validators', () => {
+  describe('createConfigMapSchema', () => {
+    it('should default the namespace', () => {
+      expect(createConfigMapSchema.parse({ name: 'app-config', data: { 'app.yaml': 'a: 1' } })).toEqual({
+        name: 'app-config',
+        namespace: 'default',
+        data: { 'app.yaml': 'a: 1' },
+      });
+    });
+
+    it('should accept dotted names', () => {
+      expect(() => createConfigMapSchema.parse({ name: 'app.config' })).not.toThrow();
+    });
+
+    it('should reject invalid data keys', () => {
+      expect(() => createConfigMapSchema.parse({ name: 'app', data: { 'conf/app.yaml': '' } })).toThrow();
+    });
+
+    it('should require base64 binary data', () => {
+      expect(() => createConfigMapSchema.parse({ name: 'app', binaryData: { logo: 'aGVsbG8=' } })).not.toThrow();
+      expect(() => createConfigMapSchema.parse({ name: 'app', binaryData: { logo: 'not base64!' } })).toThrow();
+    });
+  });
+
+  describe('updateConfigMapSchema', () => {
+    it('should accept replacement data', () => {
+      expect(updateConfigMapSchema.parse({ data: { LOG_LEVEL: 'info' } })).toEqual({
+        data: { LOG_LEVEL: 'info' },
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDeploymentSchema,
+  updateDeploymentImageSchema,
+  scaleDeploymentSchema,
+  rollbackDeploymentSchema,
+} from '../../../src/validators/deployment.validator';
+
+describe('Deployment Validators', () => {
+  describe('createDeploymentSchema', () => {
+    it('should apply namespace and replica defaults', () => {
+      const input = createDeploymentSchema.parse({
+        name: 'my-api',
+        template: { image: 'nginx:alpine' },
+      });
+
+      expect(input.namespace).toBe('default');
+      expect(input.replicas).toBe(1);
+    });
+
+    it('should reuse the pod resource schema for the template', () => {
+      const input = createDeploymentSchema.parse({
+        name: 'my-api',
+        template: {
+          image: 'nginx:alpine',
+          resources: { limits: { cpu: '200m', memory: '256Mi' } },
+        },
+      });
+
+      expect(input.template.resources).toEqual({
+        limits: { cpu: '200m', memory: '256Mi' },
+      });
+    });
+
+    it('should reject template labels that do not match the selector', () => {
+      expect(() =>
+        createDeploymentSchema.parse({
+          name: 'my-api',
+          selector: { app: 'my-api' },
+          template: { image: 'nginx:alpine', labels: { app: 'other' } },
+        }),
+      ).toThrow(/Template labels must include every selector label/);
+    });
+
+    it('should reject template labels that contradict the default selector', () => {
+      expect(() =>
+        createDeploymentSchema.parse({
+          name: 'my-api',
+          template: { image: 'nginx:alpine', labels: { app: 'other' } },
+        }),
+      ).toThrow(/must match the deployment name/);
+    });
+
+    it('should accept template labels without selector labels when the selector is omitted', () => {
+      const input = createDeploymentSchema.parse({
+        name: 'my-api',
+        template: { image: 'nginx:alpine', labels: { tier: 'backend' } },
+      });
+
+      expect(input.selector).toBeUndefined();
+    });
+
+    it('should reject negative replica counts', () => {
+      expect(() =>
+        createDeploymentSchema.parse({
+          name: 'my-api',
+          replicas: -1,
+          template: { image: 'nginx:alpine' },
+        }),
+      ).toThrow();
+    });
+
+    it('should reject invalid deployment names', () => {
+      expect(() =>
+        createDeploymentSchema.parse({
+          name: 'My_API',
+          template: { image: 'nginx:alpine' },
+        }),
+      ).toThrow(/lowercase alphanumeric/);
+    });
+  });
+
+  describe('updateDeploymentImageSchema', () => {
+    it('should require an image', () => {
+      expect(() => updateDeploymentImageSchema.parse({ container: 'app' })).toThrow();
+    });
+  });
+
+  describe('scaleDeploymentSchema', () => {
+    it('should allow scaling to zero', () => {
+      expect(scaleDeploymentSchema.parse({ replicas: 0 })).toEqual({ replicas: 0 });
+    });
+
+    it('should reject fractional replica counts', () => {
+      expect(() => scaleDeploymentSchema.parse({ replicas: 1.5 })).toThrow();
+    });
+  });
+
+  describe('rollbackDeploymentSchema', () => {
+    it('should allow omitting the revision', () => {
+      expect(rollbackDeploymentSchema.parse({})).toEqual({});
+    });
+
+    it('should reject revision zero', () => {
+      expect(() => rollbackDeploymentSchema.parse({ revision: 0 })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createNamespaceSchema,
+  updateNamespaceSchema,
+} from '../../../src/validators/namespace.validator';
+
+describe('Namespace Validators', () => {
+  describe('createNamespaceSchema', () => {
+    it('should accept a name with labels and annotations', () => {
+      const input = {
+        name: 'team-a',
+        labels: { team: 'a' },
+        annotations: { owner: 'team-a@example.com' },
+      };
+
+      expect(createNamespaceSchema.parse(input)).toEqual(input);
+    });
+
+    it('should reject names that are not DNS labels', () => {
+      expect(() => createNamespaceSchema.parse({ name: 'Team_A' })).toThrow();
+      expect(() => createNamespaceSchema.parse({ name: 'a'.repeat(64) })).toThrow();
+    });
+  });
+
+  describe('updateNamespaceSchema', () => {
+    it('should allow null values to remove keys', () => {
+      expect(updateNamespaceSchema.parse({ labels: { team: null, tier: 'gold' } })).toEqual({
+        labels: { team: null, tier: 'gold' },
+      });
+    });
+
+    it('should require labels or annotations', () => {
+      expect(() => updateNamespaceSchema.parse({})).toThrow();
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPodSchema,
+  podLogsQuerySchema,
+  execPodSchema,
+  execSessionQuerySchema,
+  execClientMessageSchema,
+} from '../../../src/validators/pod.validator';
+
+describe('Pod Validators', () => {
+  describe('createPodSchema', () => {
+    const base = { name: 'web', image: 'nginx:latest' };
+
+    it('should accept ConfigMap envFrom and volume mounts', () => {
+      const input = createPodSchema.parse({
+        ...base,
+        envFrom: [{ configMap: 'app-config', prefix: 'APP_' }],
+        configMapVolumes: [
+          { name: 'app-config', mountPath: '/etc/app', items: [{ key: 'app.yaml', path: 'config.yaml' }] },
+        ],
+      });
+
+      expect(input.envFrom).toEqual([{ configMap: 'app-config', prefix: 'APP_' }]);
+      expect(input.configMapVolumes?.[0].mountPath).toBe('/etc/app');
+    });
+
+    it('should accept secret references', () => {
+      const input = createPodSchema.parse({
+        ...base,
+        env: [{ name: 'DB_PASSWORD', valueFrom: { secretKeyRef: { name: 'db', key: 'password' } } }],
+        envFrom: [{ secret: 'api-keys' }],
+        secretVolumes: [{ name: 'web-tls', mountPath: '/etc/tls' }],
+      });
+
+      expect(input.env?.[0].valueFrom?.secretKeyRef.key).toBe('password');
+      expect(input.secretVolumes).toHaveLength(1);
+    });
+
+    it('should require exactly one of value or valueFrom', () => {
+      expect(() => createPodSchema.parse({ ...base, env: [{ name: 'A' }] })).toThrow();
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          env: [{ name: 'A', value: 'x', valueFrom: { secretKeyRef: { name: 'db', key: 'a' } } }],
+        })
+      ).toThrow();
+    });
+
+    it('should require exactly one envFrom source', () => {
+      expect(() => createPodSchema.parse({ ...base, envFrom: [{ prefix: 'APP_' }] })).toThrow();
+      expect(() =>
+        createPodSchema.parse({ ...base, envFrom: [{ configMap: 'a', secret: 'b' }] })
+      ).toThrow();
+    });
+
+    it('should accept image pull secret names', () => {
+      expect(createPodSchema.parse({ ...base, imagePullSecrets: ['regcred'] }).imagePullSecrets).toEqual([
+        'regcred',
+      ]);
+      expect(() => createPodSchema.parse({ ...base, imagePullSecrets: [''] })).toThrow();
+    });
+
+    it('should accept PVC, emptyDir, ConfigMap and Secret volumes', () => {
+      const input = createPodSchema.parse({
+        ...base,
+        volumes: [
+          { name: 'data', persistentVolumeClaim: { claimName: 'web-data' } },
+          { name: 'cache', emptyDir: { medium: 'Memory', sizeLimit: '64Mi' } },
+          { name: 'config', configMap: { name: 'app-config' } },
+          { name: 'tls', secret: { secretName: 'web-tls' } },
+        ],
+        volumeMounts: [
+          { name: 'data', mountPath: '/var/lib/data' },
+          { name: 'config', mountPath: '/etc/app', readOnly: true },
+        ],
+      });
+
+      expect(input.volumes).toHaveLength(4);
+      expect(input.volumeMounts).toHaveLength(2);
+    });
+
+    it('should require exactly one volume source', () => {
+      expect(() => createPodSchema.parse({ ...base, volumes: [{ name: 'data' }] })).toThrow();
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          volumes: [{ name: 'data', emptyDir: {}, persistentVolumeClaim: { claimName: 'x' } }],
+        })
+      ).toThrow();
+    });
+
+    it('should reject mounts of undefined volumes and duplicate volume names', () => {
+      expect(() =>
+        createPodSchema.parse({ ...base, volumeMounts: [{ name: 'data', mountPath: '/data' }] })
+      ).toThrow(/not defined in volumes/);
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          volumes: [
+            { name: 'data', emptyDir: {} },
+            { name: 'data', emptyDir: {} },
+          ],
+        })
+      ).toThrow(/Duplicate volume name/);
+    });
+
+    it('should reject volume names used by the configMapVolumes and secretVolumes shorthands', () => {
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          configMapVolumes: [{ name: 'app-config', mountPath: '/etc/app' }],
+          volumes: [{ name: 'configmap-0', emptyDir: {} }],
+        })
+      ).toThrow(/already used by a configMapVolumes or secretVolumes entry/);
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          secretVolumes: [{ name: 'tls', mountPath: '/etc/tls' }],
+          volumes: [{ name: 'secret-0', emptyDir: {} }],
+        })
+      ).toThrow(/already used/);
+      expect(() =>
+        createPodSchema.parse({ ...base, volumes: [{ name: 'configmap-0', emptyDir: {} }] })
+      ).not.toThrow();
+    });
+
+    it('should accept httpGet, tcpSocket and exec probes', () => {
+      const input = createPodSchema.parse({
+        ...base,
+        livenessProbe: { httpGet: { port: 8080 }, periodSeconds: 10, failureThreshold: 3 },
+        readinessProbe: { tcpSocket: { port: 'http' }, initialDelaySeconds: 5 },
+        startupProbe: { exec: { command: ['cat', '/tmp/ready'] }, failureThreshold: 30 },
+      });
+
+      expect(input.livenessProbe?.httpGet).toEqual({ path: '/', port: 8080 });
+      expect(input.readinessProbe?.tcpSocket?.port).toBe('http');
+    });
+
+    it('should require exactly one probe handler', () => {
+      expect(() => createPodSchema.parse({ ...base, livenessProbe: { periodSeconds: 10 } })).toThrow();
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          readinessProbe: { httpGet: { port: 80 }, tcpSocket: { port: 80 } },
+        })
+      ).toThrow();
+    });
+
+    it('should reject invalid probe timings and ports', () => {
+      expect(() =>
+        createPodSchema.parse({ ...base, readinessProbe: { tcpSocket: { port: 70000 } } })
+      ).toThrow();
+      expect(() =>
+        createPodSchema.parse({ ...base, readinessProbe: { tcpSocket: { port: 80 }, periodSeconds: 0 } })
+      ).toThrow();
+    });
+
+    it('should only allow successThreshold 1 for liveness and startup probes', () => {
+      expect(() =>
+        createPodSchema.parse({ ...base, livenessProbe: { tcpSocket: { port: 80 }, successThreshold: 2 } })
+      ).toThrow(/successThreshold must be 1/);
+      expect(() =>
+        createPodSchema.parse({ ...base, readinessProbe: { tcpSocket: { port: 80 }, successThreshold: 2 } })
+      ).not.toThrow();
+    });
+
+    it('should reject relative mount paths', () => {
+      expect(() =>
+        createPodSchema.parse({ ...base, configMapVolumes: [{ name: 'app-config', mountPath: 'etc/app' }] })
+      ).toThrow();
+    });
+
+    it('should accept containers and initContainers without the image shorthand', () => {
+      const result = createPodSchema.parse({
+        name: 'web',
+        volumes: [{ name: 'logs', emptyDir: {} }],
+        initContainers: [{ name: 'migrate', image: 'app:1.0', command: ['./migrate'] }],
+        containers: [
+          { name: 'app', image: 'app:1.0', ports: [{ name: 'http', containerPort: 8080 }], volumeMounts: [{ name: 'logs', mountPath: '/var/log/app' }] },
+          { name: 'shipper', image: 'fluent-bit:3', volumeMounts: [{ name: 'logs', mountPath: '/logs', readOnly: true }] },
+        ],
+      });
+
+      expect(result.containers?.[0].ports).toEqual([{ name: 'http', containerPort: 8080, protocol: 'TCP' }]);
+      expect(result.initContainers).toHaveLength(1);
+    });
+
+    it('should require either image or containers, not both', () => {
+      expect(() => createPodSchema.parse({ name: 'web' })).toThrow(/image or containers/);
+      expect(() =>
+        createPodSchema.parse({ ...base, containers: [{ name: 'app', image: 'app:1.0' }] })
+      ).toThrow(/containers/);
+    });
+
+    it('should reject duplicate container names across containers and initContainers', () => {
+      expect(() =>
+        createPodSchema.parse({
+          name: 'web',
+          initContainers: [{ name: 'app', image: 'app:1.0' }],
+          containers: [{ name: 'app', image: 'app:1.0' }],
+        })
+      ).toThrow(/Duplicate container name/);
+    });
+
+    it('should accept scheduling controls with defaults applied', () => {
+      const result = createPodSchema.parse({
+        ...base,
+        nodeSelector: { 'kubernetes.io/arch': 'arm64' },
+        tolerations: [{ key: 'dedicated', value: 'build', effect: 'NoSchedule' }, { operator: 'Exists' }],
+        affinity: {
+          nodes: [{ key: 'node-role.kubernetes.io/build', operator: 'DoesNotExist' }, { key: 'zone', operator: 'In', values: ['a'], weight: 50 }],
+          pods: [{ matchLabels: { app: 'cache' } }],
+        },
+        antiAffinity: [{ matchLabels: { app: 'web' }, weight: 100 }],
+        priorityClassName: 'high-priority',
+        topologySpreadConstraints: [{ topologyKey: 'kubernetes.io/hostname' }],
+      });
+
+      expect(result.tolerations?.[0].operator).toBe('Equal');
+      expect(result.affinity?.pods?.[0].topologyKey).toBe('kubernetes.io/hostname');
+      expect(result.topologySpreadConstraints?.[0]).toEqual({ maxSkew: 1, topologyKey: 'kubernetes.io/hostname', whenUnsatisfiable: 'DoNotSchedule' });
+    });
+
+    it('should check node affinity values against the operator', () => {
+      const parse = (rule: object) => () => createPodSchema.parse({ ...base, affinity: { nodes: [rule] } });
+
+      expect(parse({ key: 'zone', operator: 'In', values: [] })).toThrow(/at least one value/);
+      expect(parse({ key: 'zone', operator: 'Exists', values: ['a'] })).toThrow(/takes no values/);
+      expect(parse({ key: 'cpus', operator: 'Gt', values: ['four'] })).toThrow(/one integer value/);
+      expect(parse({ key: 'cpus', operator: 'Gt', values: ['4'] })).not.toThrow();
+      expect(parse({ key: 'zone', operator: 'In', values: ['a'], weight: 101 })).toThrow();
+    });
+
+    it('should reject inconsistent tolerations', () => {
+      const parse = (toleration: object) => () => createPodSchema.parse({ ...base, tolerations: [toleration] });
+
+      expect(parse({ key: 'gpu', operator: 'Exists', value: 'true' })).toThrow(/value must be empty/);
+      expect(parse({ value: 'true' })).toThrow(/key is required/);
+      expect(parse({ key: 'gpu', effect: 'NoSchedule', tolerationSeconds: 60 })).toThrow(/NoExecute/);
+      expect(parse({ key: 'node.kubernetes.io/unreachable', operator: 'Exists', effect: 'NoExecute', tolerationSeconds: 60 })).not.toThrow();
+    });
+
+    it('should reject empty pod affinity label selectors', () => {
+      expect(() => createPodSchema.parse({ ...base, antiAffinity: [{ matchLabels: {} }] })).toThrow(/must not be empty/);
+    });
+
+    it('should accept pod and container security contexts', () => {
+      expect(() =>
+        createPodSchema.parse({
+          ...base,
+          securityContext: { runAsUser: 1000, runAsGroup: 1000, fsGroup: 2000, seccompProfile: { type: 'RuntimeDefault' } },
+          containerSecurityContext: { readOnlyRootFilesystem: true, capabilities: { add: ['NET_BIND_SERVICE'], drop: ['ALL'] } },
+          securityProfile: 'none',
+        })
+      ).not.toThrow();
+      expect(() =>
+        createPodSchema.parse({
+          name: 'web',
+          containers: [{ name: 'app', image: 'app:1.0', securityContext: { runAsNonRoot: true } }],
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject contradictory security settings', () => {
+      const parse = (input: object) => () => createPodSchema.parse({ ...base, ...input });
+
+      expect(parse({ securityContext: { runAsNonRoot: true, runAsUser: 0 } })).toThrow(/contradicts runAsNonRoot/);
+      expect(parse({ containerSecurityContext: { privileged: true, allowPrivilegeEscalation: false } })).toThrow(/privilege escalation/);
+      expect(parse({ securityContext: { seccompProfile: { type: 'Localhost' } } })).toThrow(/localhostProfile/);
+      expect(parse({ securityContext: { seccompProfile: { type: 'RuntimeDefault', localhostProfile: 'x.json' } } })).toThrow(/localhostProfile/);
+      expect(parse({ containerSecurityContext: { capabilities: { add: ['net_admin'] } } })).toThrow(/uppercase/);
+      expect(parse({ securityProfile: 'baseline' })).toThrow();
+    });
+
+    it('should reject the shorthand container security context alongside containers', () => {
+      expect(() =>
+        createPodSchema.parse({
+          name: 'web',
+          containers: [{ name: 'app', image: 'app:1.0' }],
+          containerSecurityContext: { readOnlyRootFilesystem: true },
+        })
+      ).toThrow(/containerSecurityContext cannot be combined/);
+    });
+
+    it('should accept shorthand container ports and reject duplicate port names', () => {
+      const result = createPodSchema.parse({ ...base, ports: [{ name: 'http', containerPort: 80 }, { containerPort: 53, protocol: 'UDP' }] });
+
+      expect(result.ports).toEqual([
+        { name: 'http', containerPort: 80, protocol: 'TCP' },
+        { containerPort: 53, protocol: 'UDP' },
+      ]);
+      expect(() =>
+        createPodSchema.parse({ ...base, ports: [{ name: 'http', containerPort: 80 }, { name: 'http', containerPort: 8080 }] })
+      ).toThrow(/Duplicate port name/);
+      expect(() => createPodSchema.parse({ ...base, ports: [{ name: 'HTTP_PORT', containerPort: 80 }] })).toThrow(/Invalid port name/);
+    });
+
+    it('should reject per-container mounts of undefined volumes', () => {
+      expect(() =>
+        createPodSchema.parse({
+          name: 'web',
+          containers: [{ name: 'app', image: 'app:1.0', volumeMounts: [{ name: 'data', mountPath: '/data' }] }],
+        })
+      ).toThrow(/not defined/);
+    });
+  });
+
+  describe('podLogsQuerySchema', () => {
+    it('should accept an empty query', () => {
+      expect(podLogsQuerySchema.parse({})).toEqual({});
+    });
+
+    it('should coerce numeric and boolean query strings', () => {
+      const options = podLogsQuerySchema.parse({
+        container: 'app',
+        tailLines: '50',
+        sinceSeconds: '300',
+        timestamps: 'true',
+        previous: 'false',
+        follow: 'true',
+      });
+
+      expect(options).toEqual({
+        container: 'app',
+        tailLines: 50,
+        sinceSeconds: 300,
+        timestamps: true,
+        previous: false,
+        follow: true,
+      });
+    });
+
+    it('should reject non-numeric tailLines', () => {
+      expect(() => podLogsQuerySchema.parse({ tailLines: 'abc' })).toThrow();
+    });
+
+    it('should reject negative tailLines', () => {
+      expect(() => podLogsQuerySchema.parse({ tailLines: '-1' })).toThrow();
+    });
+
+    it('should reject sinceSeconds of zero', () => {
+      expect(() => podLogsQuerySchema.parse({ sinceSeconds: '0' })).toThrow();
+    });
+
+    it('should reject boolean flags other than true/false', () => {
+      expect(() => podLogsQuerySchema.parse({ follow: 'yes' })).toThrow();
+    });
+  });
+
+  describe('execPodSchema', () => {
+    it('should default timeoutSeconds to 30', () => {
+      expect(execPodSchema.parse({ command: ['ls'] })).toEqual({
+        command: ['ls'],
+        timeoutSeconds: 30,
+      });
+    });
+
+    it('should reject an empty command', () => {
+      expect(() => execPodSchema.parse({ command: [] })).toThrow();
+    });
+
+    it('should reject timeouts above 300 seconds', () => {
+      expect(() => execPodSchema.parse({ command: ['ls'], timeoutSeconds: 301 })).toThrow();
+    });
+  });
+
+  describe('execSessionQuerySchema', () => {
+    it('should default to an interactive shell', () => {
+      expect(execSessionQuerySchema.parse({})).toEqual({
+        command: ['/bin/sh'],
+        tty: true,
+        cols: 80,
+        rows: 24,
+      });
+    });
+
+    it('should coerce terminal dimensions', () => {
+      const options = execSessionQuerySchema.parse({ cols: '120', rows: '40', tty: 'false' });
+
+      expect(options).toMatchObject({ cols: 120, rows: 40, tty: false });
+    });
+  });
+
+  describe('execClientMessageSchema', () => {
+    it('should accept stdin and resize messages', () => {
+      expect(execClientMessageSchema.parse({ type: 'stdin', data: 'ls\n' })).toEqual({
+        type: 'stdin',
+        data: 'ls\n',
+      });
+      expect(execClientMessageSchema.parse({ type: 'resize', cols: 100, rows: 30 })).toEqual({
+        type: 'resize',
+        cols: 100,
+        rows: 30,
+      });
+    });
+
+    it('should reject unknown message types', () => {
+      expect(() => execClientMessageSchema.parse({ type: 'signal', data: 'INT' })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { createPvcSchema } from '../../../src/validators/pvc.validator';
+
+describe('PVC Validators', () => {
+  describe('createPvcSchema', () => {
+    it('should default to the k3s local-path storage class and ReadWriteOnce', () => {
+      expect(createPvcSchema.parse({ name: 'data', size: '1Gi' })).toEqual({
+        name: 'data',
+        namespace: 'default',
+        storageClassName: 'local-path',
+        size: '1Gi',
+        accessMode: 'ReadWriteOnce',
+      });
+    });
+
+    it('should reject sizes that are not quantities', () => {
+      expect(() => createPvcSchema.parse({ name: 'data', size: '1 GB' })).toThrow();
+      expect(() => createPvcSchema.parse({ name: 'data', size: 'Gi' })).toThrow();
+    });
+
+    it('should reject unknown access modes', () => {
+      expect(() => createPvcSchema.parse({ name: 'data', size: '1Gi', accessMode: 'ReadWriteAll' })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { limitRangeSchema, resourceQuotaSchema } from '../../../src/validators/quota.validator';
+
+describe('Quota Validators', () => {
+  describe('resourceQuotaSchema', () => {
+    it('should accept cpu, memory, pod and service quotas', () => {
+      const input = {
+        requests: { cpu: '2', memory: '4Gi' },
+        limits: { cpu: '4', memory: '8Gi' },
+        pods: 20,
+        services: 0,
+      };
+
+      expect(resourceQuotaSchema.parse(input)).toEqual(input);
+    });
+
+    it('should require at least one quota value', () => {
+      expect(() => resourceQuotaSchema.parse({})).toThrow();
+      expect(() => resourceQuotaSchema.parse({ requests: {} })).toThrow();
+    });
+
+    it('should reject negative pod counts', () => {
+      expect(() => resourceQuotaSchema.parse({ pods: -1 })).toThrow();
+    });
+  });
+
+  describe('limitRangeSchema', () => {
+    it('should accept container defaults and bounds', () => {
+      const input = {
+        default: { cpu: '500m', memory: '512Mi' },
+        defaultRequest: { cpu: '100m' },
+        max: { memory: '2Gi' },
+      };
+
+      expect(limitRangeSchema.parse(input)).toEqual(input);
+    });
+
+    it('should require at least one constraint', () => {
+      expect(() => limitRangeSchema.parse({})).toThrow();
+    });
+  });
+});
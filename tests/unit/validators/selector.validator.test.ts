@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fieldSelectorSchema,
+  labelSelectorSchema,
+  matchesLabelSelector,
+  parseLabelSelector,
+} from '../../../src/validators/selector.validator';
+
+describe('Selector Validators', () => {
+  describe('parseLabelSelector', () => {
+    it('should parse equality, set and existence requirements', () => {
+      expect(parseLabelSelector('app=web,tier!=cache,env in (staging, prod),!legacy,team')).toEqual([
+        { key: 'app', operator: '=', values: ['web'] },
+        { key: 'tier', operator: '!=', values: ['cache'] },
+        { key: 'env', operator: 'in', values: ['staging', 'prod'] },
+        { key: 'legacy', operator: 'notexists', values: [] },
+        { key: 'team', operator: 'exists', values: [] },
+      ]);
+    });
+
+    it('should accept sets without a space before the parenthesis', () => {
+      expect(parseLabelSelector('app in(a,b),env notin(x)')).toEqual([
+        { key: 'app', operator: 'in', values: ['a', 'b'] },
+        { key: 'env', operator: 'notin', values: ['x'] },
+      ]);
+      expect(labelSelectorSchema.parse('app in(a,b)')).toBe('app in(a,b)');
+    });
+
+    it('should accept an empty value', () => {
+      expect(parseLabelSelector('app=')).toEqual([{ key: 'app', operator: '=', values: [''] }]);
+    });
+
+    it('should accept prefixed keys', () => {
+      expect(parseLabelSelector('app.kubernetes.io/name==nginx')).toEqual([
+        { key: 'app.kubernetes.io/name', operator: '=', values: ['nginx'] },
+      ]);
+    });
+
+    it('should reject malformed selectors', () => {
+      expect(() => parseLabelSelector('app=web,')).toThrow();
+      expect(() => parseLabelSelector('env in (a b)')).toThrow();
+      expect(() => parseLabelSelector('envin(a)')).toThrow();
+      expect(() => parseLabelSelector('-app=web')).toThrow();
+      expect(() => parseLabelSelector('app=we b')).toThrow();
+    });
+  });
+
+  describe('matchesLabelSelector', () => {
+    const labels = { app: 'web', env: 'prod' };
+
+    it('should match when every requirement holds', () => {
+      expect(matchesLabelSelector(parseLabelSelector('app=web,env in (prod),!legacy'), labels)).toBe(true);
+    });
+
+    it('should not match when a requirement fails', () => {
+      expect(matchesLabelSelector(parseLabelSelector('app=web,env notin (prod)'), labels)).toBe(false);
+      expect(matchesLabelSelector(parseLabelSelector('team'), labels)).toBe(false);
+    });
+
+    it('should treat missing labels as an empty set', () => {
+      expect(matchesLabelSelector(parseLabelSelector('app!=web'), undefined)).toBe(true);
+      expect(matchesLabelSelector(parseLabelSelector('app=web'), undefined)).toBe(false);
+    });
+  });
+
+  describe('labelSelectorSchema', () => {
+    it('should report malformed selectors', () => {
+      const invalid = labelSelectorSchema.safeParse('app in web');
+      expect(invalid.success).toBe(false);
+      expect(invalid.error?.issues[0].message).toMatch(/Malformed labelSelector/);
+    });
+  });
+
+  describe('fieldSelectorSchema', () => {
+    it('should accept dotted field paths', () => {
+      expect(fieldSelectorSchema.parse('status.phase=Running,spec.nodeName!=agent-1')).toBe(
+        'status.phase=Running,spec.nodeName!=agent-1'
+      );
+      expect(fieldSelectorSchema.parse('metadata.name==web')).toBe('metadata.name==web');
+    });
+
+    it('should reject malformed field selectors', () => {
+      expect(() => fieldSelectorSchema.parse('status.phase')).toThrow(/Malformed fieldSelector/);
+      expect(() => fieldSelectorSchema.parse('status..phase=Running')).toThrow();
+      expect(() => fieldSelectorSchema.parse('status.phase in (Running)')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createTenantSchema } from '../../../src/validators/tenant.validator';
+
+describe('Tenant Validators', () => {
+  describe('createTenantSchema', () => {
+    it('should default to a deny-ingress policy and a deployer service account', () => {
+      expect(createTenantSchema.parse({ name: 'team-a' })).toEqual({
+        name: 'team-a',
+        defaultDeny: 'ingress',
+        serviceAccount: 'deployer',
+      });
+    });
+
+    it('should validate nested quota and limits', () => {
+      expect(() => createTenantSchema.parse({ name: 'team-a', quota: {} })).toThrow();
+      expect(() => createTenantSchema.parse({ name: 'team-a', limits: {} })).toThrow();
+    });
+
+    it('should reject unknown defaultDeny modes', () => {
+      expect(() => createTenantSchema.parse({ name: 'team-a', defaultDeny: 'egress' })).toThrow();
+    });
+  });
+});